@@ -3,129 +3,222 @@ import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Header from './components/Header';
 import Controls from './components/Controls';
 import Visualizer, { VisualizerHandle } from './components/Visualizer';
-import { MempoolSocket, ConnectionStatus } from './services/mempoolSocket';
+import TxDrawer from './components/TxDrawer';
+import FeeMarketOverlay from './components/FeeMarketOverlay';
+import HistoryCharts from './components/HistoryCharts';
+import { createLiveSource } from './services/workerSocket';
+import { ReplaySource, ReplayInput, getReplayFromUrl } from './services/replaySource';
+import { SimulatorSource, SimulationOptions, ScenarioId, getScenario, getSimulationFromUrl } from './services/simulator';
+import { DataSource, ConnectionStatus, isRawFrameSource, isTrackingSource } from './services/dataSource';
+import { sessionRecorder } from './services/sessionRecorder';
+import { decodeMempoolSummary } from './services/feedParser';
+import { NetworkConfig, NetworkId, getApiUrl, getWebSocketUrl, writeNetworkToUrl } from './services/network';
 import { audioEngine } from './services/audioEngine';
-import { AppState, Transaction, Block, MempoolStats } from './types';
+import { Sequencer } from './services/sequencer';
+import { QueueStats } from './services/txQueue';
+import { harmonyLayer } from './services/harmonyLayer';
+import { priceMood } from './services/priceMood';
+import { getSoundPack } from './services/soundPacks';
+import { renderSessionToWav } from './services/offlineRenderer';
+import { downloadBlob, fileTimestamp } from './services/download';
+import { ChannelId, ChannelSettings, MixerSettings } from './services/mixer';
+import { AppState, Transaction, Block, MempoolStats, ProjectedBlock, TxReplacement, WatchMatch } from './types';
+import { watchlist, shortId } from './services/watchlist';
+import { notify, requestNotificationPermission } from './services/notifications';
+import { feeMarket, FeeMarketSnapshot } from './services/feeMarket';
+import { historyStore } from './services/history';
+import { midiOutput, MidiPort, MidiSettings } from './services/midiOutput';
+import { eventBus, EventBusSettings } from './services/eventBus';
+import { priceFeed, providersForBackend, Currency, PriceSnapshot } from './services/priceFeed';
+import { SceneId } from './components/scenes/types';
+import { RendererMode } from './components/scenes/renderer';
+import { DEFAULT_SETTINGS, Settings, SettingsStore, toPresetUrl } from './services/settings';
+
+const HISTORY_SAMPLE_MS = 10_000;
+
+/** Created here rather than in services, which import without touching the page. */
+const settingsStore = new SettingsStore();
+audioEngine.mixer.setSettings(settingsStore.current.mixer);
 
 const App: React.FC = () => {
+  const initialSettings = useRef(settingsStore.current).current;
   const [state, setState] = useState<AppState>({
     btcPrice: 0,
     isAudioStarted: false,
-    volume: 0.5,
-    mempoolStats: { count: 0, vsize: 0, total_fee: 0 }
+    volume: initialSettings.volume,
+    mempoolStats: { count: 0, vsize: 0, total_fee: 0 },
+    projectedBlocks: []
   });
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
+  const initialReplay = useRef(getReplayFromUrl());
+  const [replay, setReplay] = useState<ReplayInput | null>(initialReplay.current?.input ?? null);
+  const [replaySpeed, setReplaySpeed] = useState<number>(initialReplay.current?.options.speed ?? 1);
+  const replayLoop = initialReplay.current?.options.loop ?? true;
+  const initialSimulation = useRef(getSimulationFromUrl()).current;
+  const [simulation, setSimulation] = useState<SimulationOptions | null>(initialSimulation);
+  // Replays and simulations never touch the network
+  const isOffline = replay !== null || simulation !== null;
+  const sourceRef = useRef<DataSource | null>(null);
+  const [network, setNetwork] = useState<NetworkConfig>(initialSettings.network);
+  const [soundPackId, setSoundPackId] = useState<string>(initialSettings.soundPackId);
+  const [isHarmonyOn, setIsHarmonyOn] = useState(initialSettings.harmony);
+  const [isMoodOn, setIsMoodOn] = useState(initialSettings.priceMood);
+  const [mixerSettings, setMixerSettings] = useState<MixerSettings>(audioEngine.mixer.settings);
+  const [, setWatchVersion] = useState(0);
+  const [selectedTxid, setSelectedTxid] = useState<string | null>(null);
+  const [feeSnapshot, setFeeSnapshot] = useState<FeeMarketSnapshot>(() => feeMarket.snapshot());
+  const [queueStats, setQueueStats] = useState<QueueStats>({ depth: 0, pending: 0, aggregated: 0 });
+  const [scene, setScene] = useState<SceneId>(initialSettings.visuals.scene);
+  const [isFeeOverlayOpen, setIsFeeOverlayOpen] = useState(initialSettings.visuals.feeOverlay);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(initialSettings.visuals.history);
+  const [renderer, setRenderer] = useState<RendererMode>(initialSettings.visuals.renderer);
+  const [isPerfOverlayOn, setIsPerfOverlayOn] = useState(initialSettings.visuals.perfOverlay);
+  const [midiSettings, setMidiSettings] = useState<MidiSettings>(initialSettings.midi);
+  const [midiPorts, setMidiPorts] = useState<MidiPort[]>([]);
+  const [isMidiConnected, setIsMidiConnected] = useState(false);
+  const [midiError, setMidiError] = useState<string | null>(null);
+  const [eventBusSettings, setEventBusSettings] = useState<EventBusSettings>(initialSettings.eventBus);
+  const [eventBusStatus, setEventBusStatus] = useState<ConnectionStatus>(eventBus.status);
+  const [thresholds, setThresholds] = useState<Settings['thresholds']>(initialSettings.thresholds);
+  const [currency, setCurrency] = useState<Currency>(initialSettings.currency);
+  const [price, setPrice] = useState<PriceSnapshot>(priceFeed.snapshot);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState<string | null>(null);
 
   const visualizerRef = useRef<VisualizerHandle>(null);
-  const txQueue = useRef<any[]>([]);
-  const timeoutRef = useRef<number | null>(null);
-  
-  // Rhythm Grid State
-  const beatIndex = useRef<number>(0);
-  // Base tempo for a laid back bluesy/jazzy vibe
-  const BASE_INTERVAL = 200; 
+  const sequencerRef = useRef<Sequencer | null>(null);
+  const tipHeightRef = useRef<number | undefined>(undefined);
+  const isAudioStartedRef = useRef(false);
+  // Network whose history is being written; null while offline so recordings don't pollute it
+  const historyNetworkRef = useRef<NetworkId | null>(null);
+  // Last stats as the feed reported them; the displayed count also ticks up per tx and never drops
+  const feedStatsRef = useRef<MempoolStats | null>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
 
   const fetchInitialData = async () => {
     try {
-      const priceRes = await fetch('https://api.coinbase.com/v2/prices/BTC-USD/spot');
-      const priceData = await priceRes.json();
-      const btcPrice = parseFloat(priceData.data.amount);
-
-      const mempoolRes = await fetch('https://mempool.space/api/mempool');
-      const mempoolData = await mempoolRes.json();
-      
-      setState(prev => ({ 
-        ...prev, 
-        btcPrice,
-        mempoolStats: {
-          count: mempoolData.count,
-          vsize: mempoolData.vsize,
-          total_fee: mempoolData.total_fee
-        }
-      }));
+      const mempoolRes = await fetch(`${getApiUrl(network)}/mempool`);
+      // A malformed summary keeps the last good stats rather than zeroing them
+      const mempoolStats = decodeMempoolSummary(await mempoolRes.json());
+      if (!mempoolStats) return;
+      sessionRecorder.recordSnapshot({ btcPrice: priceFeed.snapshot.prices.USD ?? 0, mempool: mempoolStats });
+      feedStatsRef.current = mempoolStats;
+      setState(prev => ({ ...prev, mempoolStats }));
     } catch (err) {
       console.error('Initial data fetch error', err);
     }
   };
 
   useEffect(() => {
+    // Replays and simulations run fully offline; their stats come from the source itself
+    if (isOffline) return;
     fetchInitialData();
     const interval = setInterval(fetchInitialData, 60000);
     return () => clearInterval(interval);
-  }, []);
+  }, [isOffline, network]);
 
-  /**
-   * Bluesy/Jazzy Dispatcher:
-   * Uses "Swing" timing where the grid alternates between a long and short duration.
-   * This creates a shuffle (blues) or swing (jazz) feel.
-   * Also ensures transactions are spread out even during high volume spikes.
-   */
-  const processNextTransaction = useCallback(() => {
-    const qLen = txQueue.current.length;
-    const isEvenBeat = beatIndex.current % 2 === 0;
-    
-    // Swing factor: 1.5 for bluesy shuffle, up to 2.0 for hard jazz swing.
-    // We increase swing intensity slightly as the mempool gets busier.
-    const swingFactor = qLen > 100 ? 1.8 : 1.4;
-    
-    // Calculate the duration for this specific step
-    let stepDuration = isEvenBeat 
-      ? BASE_INTERVAL * swingFactor 
-      : BASE_INTERVAL * (2 - swingFactor);
-
-    // Adjust global tempo based on congestion (speed up if queue is huge)
-    const congestionSpeedUp = Math.min(2.5, 1 + qLen / 150);
-    stepDuration = stepDuration / congestionSpeedUp;
-
-    // Minimum duration to prevent audio glitching/crowding
-    stepDuration = Math.max(40, stepDuration);
-
-    // Deciding whether to play on this specific beat
-    // We emphasize the "downbeats" (multiples of 4) for stability
-    const isStrongBeat = beatIndex.current % 4 === 0;
-    const probability = isStrongBeat ? 0.95 : 0.6;
-    
-    const shouldPlay = qLen > 0 && Math.random() < probability;
-
-    if (shouldPlay) {
-      const tx = txQueue.current.shift();
-      if (tx) {
-        const value = tx.value || 0;
-        const feeRate = tx.feeRate || 1;
-
-        if (audioEngine) {
-          audioEngine.playTransaction(value, beatIndex.current);
-        }
-        if (visualizerRef.current) {
-          visualizerRef.current.addTransaction({
-            id: tx.txid || tx.id,
-            value,
-            feeRate
-          });
-        }
-      }
-    } else if (isEvenBeat && state.isAudioStarted && Math.random() < 0.2) {
-        // Ghost notes to keep the rhythm alive
-        audioEngine.playTransaction(0, beatIndex.current);
-    }
+  // Live prices come from the price feed; offline sources push their own through onPrice
+  useEffect(() => {
+    if (isOffline) return;
+    // A custom backend also stands in for mempool.space as the last price fallback
+    priceFeed.setProviders(providersForBackend(network.baseUrl));
+    priceFeed.start();
+    return () => priceFeed.stop();
+  }, [isOffline, network.baseUrl]);
 
-    // Increment rhythm
-    beatIndex.current = (beatIndex.current + 1) % 16;
+  useEffect(() => priceFeed.subscribe(() => {
+    const snapshot = priceFeed.snapshot;
+    setPrice(snapshot);
+    const usd = snapshot.prices.USD;
+    if (usd && usd !== stateRef.current.btcPrice) {
+      setState(prev => ({ ...prev, btcPrice: usd }));
+      eventBus.publish({ type: 'price', usd });
+      priceMood.addPrice(usd);
+    }
+  }), []);
 
-    timeoutRef.current = window.setTimeout(processNextTransaction, stepDuration);
-  }, [state.isAudioStarted]);
+  // Hand persisted settings to the audio singletons before the sequencer picks up the groove
+  useEffect(() => {
+    audioEngine.setSoundPack(getSoundPack(initialSettings.soundPackId));
+    harmonyLayer.enabled = initialSettings.harmony;
+    priceMood.enabled = initialSettings.priceMood;
+    midiOutput.update(initialSettings.midi);
+  }, []);
 
   useEffect(() => {
-    processNextTransaction();
+    // Audio clock once the context exists; wall clock keeps visuals moving before that
+    const now = () => audioEngine.currentTime ?? performance.now() / 1000;
+    const sequencer = new Sequencer(
+      {
+        onSchedule: (event) => {
+          harmonyLayer.onStep(event.step, event.time);
+          eventBus.publish({ type: 'beat', step: event.step, at: Date.now() + (event.time - now()) * 1000 });
+          if (event.tx) {
+            audioEngine.playTransaction(event.tx.value, event.step, event.time, event.tx.feeRate);
+          } else if (event.cluster) {
+            audioEngine.playCluster(event.cluster, event.time);
+          } else if (event.ghost && isAudioStartedRef.current) {
+            // Ghost notes to keep the rhythm alive
+            audioEngine.playTransaction(0, event.step, event.time);
+          }
+        },
+        onVisual: (event) => {
+          const txs = event.cluster ? event.cluster.txs : event.tx ? [event.tx] : [];
+          if (event.cluster) {
+            visualizerRef.current?.addCluster({
+              id: event.cluster.id,
+              txs: txs.map(tx => ({ id: tx.id, value: tx.value, feeRate: tx.feeRate, vsize: tx.vsize }))
+            });
+          } else if (event.tx) {
+            visualizerRef.current?.addTransaction({
+              id: event.tx.id,
+              value: event.tx.value,
+              feeRate: event.tx.feeRate,
+              vsize: event.tx.vsize
+            });
+          }
+          txs.forEach(tx => eventBus.publish({
+            type: 'tx.added',
+            txid: tx.id,
+            valueSats: tx.value,
+            feeRate: tx.feeRate,
+            vsize: tx.vsize
+          }));
+        },
+        onPulse: (time) => audioEngine.playShaker(time)
+      },
+      now
+    );
+    sequencerRef.current = sequencer;
+    sequencer.setGroove(audioEngine.soundPack.groove);
+    sequencer.start();
     return () => {
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+      sequencer.stop();
+      sequencerRef.current = null;
     };
-  }, [processNextTransaction]);
+  }, []);
 
-  const handleNewTransaction = useCallback((tx: any) => {
-    const value = tx.value || (tx.vsize ? tx.vsize * 120 : 10000); 
-    const feeRate = tx.feeRate || (tx.fee ? tx.fee / tx.vsize : 1);
-    
+  const handleWatchSeen = (key: string, txid: string, tx?: Transaction) => {
+    if (!watchlist.recordSeen(key, txid)) return;
+    audioEngine.playWatchMotif(false);
+    if (tx) {
+      visualizerRef.current?.pinTransaction({ id: tx.id, value: tx.value, feeRate: tx.feeRate, vsize: tx.vsize }, shortId(key));
+    }
+    notify('Watched transaction in mempool', `${shortId(key)}: ${shortId(txid)}`, txid);
+  };
+
+  const handleWatchConfirmed = (key: string, txid: string, blockHeight?: number) => {
+    const height = blockHeight ?? tipHeightRef.current;
+    if (height === undefined || !watchlist.recordConfirmed(key, height)) return;
+    audioEngine.playWatchMotif(true);
+    visualizerRef.current?.unpinTransaction(txid);
+    notify('Watched transaction confirmed', `${shortId(key)} in block ${height}`, txid);
+  };
+
+  const handleNewTransaction = useCallback((tx: Transaction) => {
     setState(prev => ({
       ...prev,
       mempoolStats: {
@@ -135,19 +228,30 @@ const App: React.FC = () => {
     }));
 
     // Add to queue for scheduled playback
-    txQueue.current.push({ ...tx, value, feeRate });
-    
-    // Cap queue to prevent memory leak and excessive delay
-    if (txQueue.current.length > 5000) txQueue.current.splice(0, 500);
+    sequencerRef.current?.enqueue(tx);
+    // A tx without a known fee rate would skew the fee bands towards zero
+    if (!tx.missing?.includes('feeRate')) feeMarket.recordTransaction(tx);
+
+    if (watchlist.isWatchedTx(tx.id)) handleWatchSeen(tx.id, tx.id, tx);
   }, []);
 
   const handleNewBlock = useCallback((block: Block) => {
+    tipHeightRef.current = block.height;
+    feeMarket.recordBlock(block);
+    eventBus.publish({ type: 'block', height: block.height, txCount: block.tx_count });
+    if (historyNetworkRef.current) {
+      historyStore.recordBlock(block, historyNetworkRef.current)
+        .catch(err => console.error('Failed to store block history', err));
+    }
     setState(prev => ({ ...prev, lastBlock: block }));
     if (audioEngine) audioEngine.playBlockConfirm();
     if (visualizerRef.current) visualizerRef.current.flashBlock();
   }, []);
 
   const handleStats = useCallback((stats: MempoolStats) => {
+    feedStatsRef.current = stats;
+    feeMarket.setMempoolVsize(stats.vsize);
+    eventBus.publish({ type: 'stats', count: stats.count, vsize: stats.vsize, totalFeeSats: stats.total_fee });
     setState(prev => ({ 
       ...prev, 
       mempoolStats: {
@@ -157,23 +261,331 @@ const App: React.FC = () => {
     }));
   }, []);
 
+  const handleRemoved = useCallback((txids: string[]) => {
+    sequencerRef.current?.discard(new Set(txids));
+    visualizerRef.current?.removeTransactions(txids);
+    eventBus.publish({ type: 'tx.removed', txids, reason: 'evicted' });
+    audioEngine.playRemoved(txids.length);
+  }, []);
+
+  const handleReplaced = useCallback((replacements: TxReplacement[]) => {
+    replacements.forEach(({ txid, by }) => {
+      sequencerRef.current?.replace(txid, by);
+      visualizerRef.current?.replaceTransaction(txid, { id: by.id, value: by.value, feeRate: by.feeRate, vsize: by.vsize });
+    });
+    audioEngine.playReplaced();
+    eventBus.publish({ type: 'tx.removed', txids: replacements.map(r => r.txid), reason: 'replaced' });
+  }, []);
+
+  const handleConfirmed = useCallback((txids: string[]) => {
+    sequencerRef.current?.discard(new Set(txids));
+    visualizerRef.current?.confirmTransactions(txids);
+    eventBus.publish({ type: 'tx.removed', txids, reason: 'confirmed' });
+    audioEngine.playConfirmed(txids.length);
+
+    const mined = new Set(txids);
+    watchlist.all.forEach(({ kind, value }) => {
+      if (kind === 'tx' && mined.has(value)) handleWatchConfirmed(value, value);
+      const lastTxid = watchlist.status(value).lastTxid;
+      if (kind === 'address' && lastTxid && mined.has(lastTxid)) handleWatchConfirmed(value, lastTxid);
+    });
+  }, []);
+
+  const handleWatchMatch = useCallback((match: WatchMatch) => {
+    if (match.confirmed) handleWatchConfirmed(match.key, match.txid, match.blockHeight);
+    else handleWatchSeen(match.key, match.txid, match.tx);
+  }, []);
+
+  const handleProjectedBlocks = useCallback((projectedBlocks: ProjectedBlock[]) => {
+    harmonyLayer.setProjectedBlocks(projectedBlocks);
+    feeMarket.setProjectedBlocks(projectedBlocks);
+    setState(prev => ({ ...prev, projectedBlocks }));
+  }, []);
+
   useEffect(() => {
-    const socket = new MempoolSocket(
-      handleNewTransaction,
-      handleNewBlock,
-      handleStats,
-      setConnectionStatus
-    );
-    socket.connect();
-    return () => socket.disconnect();
-  }, [handleNewTransaction, handleNewBlock, handleStats]);
+    const handlers = {
+      onTransaction: handleNewTransaction,
+      onBlock: handleNewBlock,
+      onStats: handleStats,
+      onProjectedBlocks: handleProjectedBlocks,
+      onRemoved: handleRemoved,
+      onReplaced: handleReplaced,
+      onConfirmed: handleConfirmed,
+      onWatchMatch: handleWatchMatch,
+      onStatus: setConnectionStatus,
+      onPrice: (btcPrice: number) => priceFeed.setExternalPrice(btcPrice, replay ? 'Recording' : 'Simulation'),
+      onRawFrame: (raw: string) => sessionRecorder.recordFrame(raw)
+    };
+    const source: DataSource = replay
+      ? new ReplaySource(handlers, replay, { speed: replaySpeed, loop: replayLoop })
+      : simulation
+        ? new SimulatorSource(handlers, simulation)
+        : createLiveSource(handlers, getWebSocketUrl(network));
+    if (isTrackingSource(source)) source.setTracking(watchlist.addresses, watchlist.txids);
+    if (isRawFrameSource(source)) source.setForwardRaw(sessionRecorder.isRecording);
+    // A recording's or simulation's price isn't a move from the previous source's
+    priceMood.reset();
+    feedStatsRef.current = null;
+    sourceRef.current = source;
+    source.connect();
+    return () => {
+      source.disconnect();
+      sourceRef.current = null;
+    };
+    // replaySpeed is applied live below, not by reconnecting
+  }, [
+    handleNewTransaction, handleNewBlock, handleStats, handleProjectedBlocks,
+    handleRemoved, handleReplaced, handleConfirmed, handleWatchMatch, replay, replayLoop, simulation, network
+  ]);
+
+  useEffect(() => watchlist.subscribe(() => {
+    setWatchVersion(v => v + 1);
+    if (isTrackingSource(sourceRef.current)) {
+      sourceRef.current.setTracking(watchlist.addresses, watchlist.txids);
+    }
+  }), []);
+
+  // Confirmation counts for watched txids come from REST: on load, on edits and per block
+  const watchedTxids = watchlist.txids.join(',');
+  useEffect(() => {
+    if (isOffline || !watchedTxids) return;
+    watchlist.refreshStatuses(getApiUrl(network), state.lastBlock?.height);
+  }, [watchedTxids, state.lastBlock?.height, network, isOffline]);
+
+  // Fee metrics are cheap to compute but only need to repaint about once a second
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setFeeSnapshot(feeMarket.snapshot());
+      if (sequencerRef.current) setQueueStats(sequencerRef.current.queueStats);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Sample the live feed into the persistent history every few seconds
+  useEffect(() => {
+    historyNetworkRef.current = isOffline ? null : network.network;
+    if (isOffline) return;
+    const interval = setInterval(() => {
+      const mempoolStats = feedStatsRef.current;
+      if (!mempoolStats || mempoolStats.count === 0) return;
+      historyStore.record({
+        time: Date.now(),
+        network: network.network,
+        count: mempoolStats.count,
+        vsize: mempoolStats.vsize,
+        totalFee: mempoolStats.total_fee,
+        arrivalRate: feeMarket.snapshot().arrivalRate,
+        btcPrice: stateRef.current.btcPrice
+      }).catch(err => console.error('Failed to store history sample', err));
+    }, HISTORY_SAMPLE_MS);
+    return () => clearInterval(interval);
+  }, [isOffline, network]);
+
+  useEffect(() => midiOutput.subscribe(() => {
+    setMidiPorts(midiOutput.outputs);
+    setIsMidiConnected(midiOutput.isConnected);
+  }), []);
+
+  const handleMidiConnect = useCallback(() => {
+    midiOutput.connect()
+      .then(() => setMidiError(null))
+      .catch(err => {
+        console.error('MIDI access failed', err);
+        setMidiError('MIDI access was denied');
+      });
+  }, []);
+
+  // Reopen the port picked last time; the browser only prompts once per origin
+  useEffect(() => {
+    if (initialSettings.midi.outputId && midiOutput.isSupported) handleMidiConnect();
+  }, [handleMidiConnect]);
+
+  useEffect(() => {
+    audioEngine.setNoteSink(midiSettings.outputId ? midiOutput : null, midiSettings.replaceSynth);
+  }, [midiSettings.outputId, midiSettings.replaceSynth]);
+
+  useEffect(() => eventBus.subscribe(() => setEventBusStatus(eventBus.status)), []);
+
+  useEffect(() => {
+    eventBus.configure(eventBusSettings);
+  }, [eventBusSettings]);
+
+  useEffect(() => {
+    watchlist.settledConfirmations = thresholds.settledConfirmations;
+  }, [thresholds.settledConfirmations]);
+
+  useEffect(() => {
+    settingsStore.update({
+      volume: state.volume,
+      soundPackId,
+      harmony: isHarmonyOn,
+      priceMood: isMoodOn,
+      mixer: mixerSettings,
+      network,
+      currency,
+      visuals: { scene, feeOverlay: isFeeOverlayOpen, history: isHistoryOpen, renderer, perfOverlay: isPerfOverlayOn },
+      thresholds,
+      midi: midiSettings,
+      eventBus: eventBusSettings
+    });
+  }, [
+    state.volume, soundPackId, isHarmonyOn, isMoodOn, mixerSettings, network, currency,
+    scene, isFeeOverlayOpen, isHistoryOpen, renderer, isPerfOverlayOn, thresholds, midiSettings, eventBusSettings
+  ]);
+
+  const closeDrawer = useCallback(() => setSelectedTxid(null), []);
+
+  const handleWatchAdd = (value: string) => {
+    requestNotificationPermission();
+    watchlist.add(value);
+  };
+
+  const handleNetworkChange = (config: NetworkConfig) => {
+    writeNetworkToUrl(config);
+    setNetwork(config);
+    // Stats and block height from the previous chain would be misleading
+    setState(prev => ({
+      ...prev,
+      lastBlock: undefined,
+      mempoolStats: { count: 0, vsize: 0, total_fee: 0 },
+      projectedBlocks: []
+    }));
+    harmonyLayer.setProjectedBlocks([]);
+    feeMarket.reset();
+  };
+
+  const handleReplaySpeedChange = (speed: number) => {
+    setReplaySpeed(speed);
+    if (sourceRef.current instanceof ReplaySource) sourceRef.current.setSpeed(speed);
+  };
+
+  // Frame counter for the record button; polled so busy feeds don't re-render per frame
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setRecordedFrames(sessionRecorder.frameCount), 1000);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const handleToggleRecording = () => {
+    if (sessionRecorder.isRecording) {
+      sessionRecorder.stop();
+      setRecordedFrames(sessionRecorder.frameCount);
+      setIsRecording(false);
+    } else {
+      sessionRecorder.start();
+      setRecordedFrames(0);
+      setIsRecording(true);
+    }
+    // Raw frames are only worth copying out of the feed while they're being kept
+    if (isRawFrameSource(sourceRef.current)) sourceRef.current.setForwardRaw(sessionRecorder.isRecording);
+  };
+
+  const handleExportWav = async (fromBlockHeight?: number) => {
+    setIsRendering(true);
+    setRenderError(null);
+    try {
+      const text = replay
+        ? ('url' in replay ? await (await fetch(replay.url)).text() : replay.text)
+        : sessionRecorder.toText();
+      const wav = await renderSessionToWav(text, {
+        pack: getSoundPack(soundPackId),
+        mixer: mixerSettings,
+        harmony: harmonyLayer.enabled,
+        mood: audioEngine.marketMood,
+        fromBlockHeight
+      });
+      const name = fromBlockHeight !== undefined ? `block-${fromBlockHeight}` : fileTimestamp();
+      downloadBlob(wav, `mempool-radio-${name}.wav`);
+    } catch (err) {
+      console.error('WAV export error', err);
+      setRenderError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleLoadReplay = async (file: File) => {
+    const text = await file.text();
+    setSimulation(null);
+    setReplay({ text, name: file.name });
+  };
+
+  const handleSimulate = (scenario: ScenarioId | null) => {
+    setReplay(null);
+    // Keep the seed and any URL overrides across scenario switches so runs stay reproducible
+    setSimulation(scenario
+      ? { scenario, seed: initialSimulation?.seed ?? 1, overrides: initialSimulation?.overrides }
+      : null);
+  };
 
   const startAudio = async () => {
     await audioEngine.init();
     audioEngine.setVolume(state.volume);
+    isAudioStartedRef.current = true;
     setState(prev => ({ ...prev, isAudioStarted: true }));
   };
 
+  const handleSoundPackChange = (id: string) => {
+    const pack = getSoundPack(id);
+    setSoundPackId(pack.id);
+    audioEngine.setSoundPack(pack);
+    sequencerRef.current?.setGroove(pack.groove);
+  };
+
+  const handleHarmonyToggle = () => {
+    harmonyLayer.enabled = !harmonyLayer.enabled;
+    setIsHarmonyOn(harmonyLayer.enabled);
+  };
+
+  const handleMoodToggle = () => {
+    priceMood.enabled = !priceMood.enabled;
+    setIsMoodOn(priceMood.enabled);
+  };
+
+  const handleMixerChange = (id: ChannelId, patch: Partial<ChannelSettings>) => {
+    audioEngine.mixer.setChannel(id, patch);
+    setMixerSettings(audioEngine.mixer.settings);
+  };
+
+  const handleMixerReset = () => {
+    audioEngine.mixer.reset();
+    setMixerSettings(audioEngine.mixer.settings);
+  };
+
+  const handleMidiChange = (patch: Partial<MidiSettings>) => {
+    midiOutput.update(patch);
+    setMidiSettings(midiOutput.settings);
+  };
+
+  const handleThresholdsChange = (patch: Partial<Settings['thresholds']>) => {
+    setThresholds(prev => ({ ...prev, ...patch }));
+  };
+
+  const handleSharePreset = () => navigator.clipboard.writeText(toPresetUrl(settingsStore.current));
+
+  const handleResetSettings = () => {
+    const defaults = DEFAULT_SETTINGS;
+    handleVolumeChange(defaults.volume);
+    handleSoundPackChange(defaults.soundPackId);
+    harmonyLayer.enabled = defaults.harmony;
+    setIsHarmonyOn(defaults.harmony);
+    priceMood.enabled = defaults.priceMood;
+    setIsMoodOn(defaults.priceMood);
+    handleMixerReset();
+    setScene(defaults.visuals.scene);
+    setIsFeeOverlayOpen(defaults.visuals.feeOverlay);
+    setIsHistoryOpen(defaults.visuals.history);
+    setRenderer(defaults.visuals.renderer);
+    setIsPerfOverlayOn(defaults.visuals.perfOverlay);
+    setThresholds(defaults.thresholds);
+    setCurrency(defaults.currency);
+    handleMidiChange(defaults.midi);
+    setEventBusSettings(defaults.eventBus);
+    if (network.network !== defaults.network.network || network.baseUrl !== defaults.network.baseUrl) {
+      handleNetworkChange(defaults.network);
+    }
+  };
+
   const handleVolumeChange = (vol: number) => {
     setState(prev => ({ ...prev, volume: vol }));
     audioEngine.setVolume(vol);
@@ -181,12 +593,36 @@ const App: React.FC = () => {
 
   return (
     <div className="relative w-full h-screen overflow-hidden bg-[#050208] selection:bg-green-500/30">
-      <Visualizer ref={visualizerRef} blockHeight={state.lastBlock?.height} btcPrice={state.btcPrice} />
+      <Visualizer
+        ref={visualizerRef}
+        currency={currency}
+        prices={price.prices}
+        network={network.network}
+        whaleBtc={thresholds.whaleBtc}
+        scene={scene}
+        renderer={renderer}
+        showStats={isPerfOverlayOn}
+        onSelectTransaction={setSelectedTxid}
+      />
+
+      {state.isAudioStarted && isFeeOverlayOpen && <FeeMarketOverlay snapshot={feeSnapshot} />}
+      {state.isAudioStarted && isHistoryOpen && <HistoryCharts network={network.network} />}
+
+      {selectedTxid && (
+        <TxDrawer
+          txid={selectedTxid}
+          apiUrl={getApiUrl(network)}
+          tipHeight={state.lastBlock?.height}
+          onClose={closeDrawer}
+        />
+      )}
       
       {state.isAudioStarted && (
         <Header 
           lastBlock={state.lastBlock} 
-          mempoolCount={state.mempoolStats.count} 
+          congestion={feeSnapshot.congestion}
+          queue={queueStats}
+          network={network}
         />
       )}
       
@@ -195,9 +631,67 @@ const App: React.FC = () => {
         onStartAudio={startAudio}
         volume={state.volume}
         onVolumeChange={handleVolumeChange}
+        soundPackId={soundPackId}
+        onSoundPackChange={handleSoundPackChange}
+        isHarmonyOn={isHarmonyOn}
+        isMoodOn={isMoodOn}
+        onMoodToggle={handleMoodToggle}
+        priceTrend={priceMood.trend}
+        onHarmonyToggle={handleHarmonyToggle}
+        mixerSettings={mixerSettings}
+        onMixerChange={handleMixerChange}
+        onMixerReset={handleMixerReset}
+        isMidiSupported={midiOutput.isSupported}
+        isMidiConnected={isMidiConnected}
+        midiError={midiError}
+        midiOutputs={midiPorts}
+        midiSettings={midiSettings}
+        onMidiConnect={handleMidiConnect}
+        onMidiChange={handleMidiChange}
+        watchEntries={watchlist.all.map(item => ({ item, status: watchlist.status(item.value) }))}
+        onWatchAdd={handleWatchAdd}
+        onWatchRemove={(value) => watchlist.remove(value)}
+        thresholds={thresholds}
+        onThresholdsChange={handleThresholdsChange}
+        eventBus={eventBusSettings}
+        eventBusStatus={eventBusStatus}
+        onEventBusChange={(patch) => setEventBusSettings(prev => ({ ...prev, ...patch }))}
+        renderer={renderer}
+        onRendererChange={setRenderer}
+        perfOverlay={isPerfOverlayOn}
+        onPerfOverlayChange={setIsPerfOverlayOn}
+        onSharePreset={handleSharePreset}
+        onResetSettings={handleResetSettings}
+        scene={scene}
+        onSceneChange={setScene}
+        isFeeOverlayOpen={isFeeOverlayOpen}
+        onFeeOverlayToggle={() => setIsFeeOverlayOpen(open => !open)}
+        isHistoryOpen={isHistoryOpen}
+        onHistoryToggle={() => setIsHistoryOpen(open => !open)}
         mempoolCount={state.mempoolStats.count}
-        btcPrice={state.btcPrice}
+        price={price}
+        isPriceStale={!isOffline && priceFeed.isStale()}
+        currency={currency}
+        onCurrencyChange={setCurrency}
         lastBlock={state.lastBlock}
+        isReplaying={replay !== null}
+        replaySpeed={replaySpeed}
+        onReplaySpeedChange={handleReplaySpeedChange}
+        onLoadReplay={handleLoadReplay}
+        onExitReplay={() => setReplay(null)}
+        simulation={simulation?.scenario ?? null}
+        onSimulate={handleSimulate}
+        isRecording={isRecording}
+        recordedFrames={recordedFrames}
+        canDownloadRecording={!isRecording && recordedFrames > 0}
+        onToggleRecording={handleToggleRecording}
+        onDownloadRecording={() => sessionRecorder.download()}
+        canExportWav={replay !== null || (!isRecording && recordedFrames > 0)}
+        isRendering={isRendering}
+        renderError={renderError}
+        onExportWav={handleExportWav}
+        network={network}
+        onNetworkChange={handleNetworkChange}
       />
 
       {!state.isAudioStarted && (
@@ -221,7 +715,7 @@ const App: React.FC = () => {
             </div>
             <div className="mt-6 text-[11px] text-gray-500 font-mono">
               {connectionStatus === 'connecting' && 'Connecting to chain…'}
-              {connectionStatus === 'connected' && 'Live'}
+              {connectionStatus === 'connected' && (replay ? 'Replaying session' : simulation ? `Simulating · ${getScenario(simulation.scenario).label}` : 'Live')}
               {connectionStatus === 'disconnected' && 'Reconnecting…'}
             </div>
           </div>
@@ -1,27 +1,234 @@
-import React from 'react';
+import React, { useRef, useState, useEffect } from 'react';
 import { Block } from '../types';
+import { NetworkConfig, NetworkId, NETWORKS, parseBaseUrl } from '../services/network';
+import { SOUND_PACKS } from '../services/soundPacks';
+import { SCENARIOS, ScenarioId } from '../services/simulator';
+import { CURRENCIES, Currency, PriceSnapshot, formatMoney } from '../services/priceFeed';
+import { PriceTrend } from '../services/priceMood';
+import { ChannelId, ChannelSettings, MixerSettings } from '../services/mixer';
+import MixerPanel from './MixerPanel';
+import WatchlistPanel from './WatchlistPanel';
+import SettingsPanel from './SettingsPanel';
+import MidiPanel from './MidiPanel';
+import { SCENES, SceneId } from './scenes/types';
+import { WatchItem, WatchStatus } from '../services/watchlist';
+import { Settings } from '../services/settings';
+import { MidiPort, MidiSettings } from '../services/midiOutput';
+import { EventBusSettings } from '../services/eventBus';
+import { RendererMode } from './scenes/renderer';
+import { ConnectionStatus } from '../services/dataSource';
+
+const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
 
 interface ControlsProps {
   isAudioStarted: boolean;
   onStartAudio: () => void;
   volume: number;
   onVolumeChange: (val: number) => void;
+  soundPackId: string;
+  onSoundPackChange: (id: string) => void;
+  isHarmonyOn: boolean;
+  onHarmonyToggle: () => void;
+  isMoodOn: boolean;
+  onMoodToggle: () => void;
+  priceTrend: PriceTrend;
+  mixerSettings: MixerSettings;
+  onMixerChange: (id: ChannelId, patch: Partial<ChannelSettings>) => void;
+  onMixerReset: () => void;
+  isMidiSupported: boolean;
+  isMidiConnected: boolean;
+  midiError: string | null;
+  midiOutputs: MidiPort[];
+  midiSettings: MidiSettings;
+  onMidiConnect: () => void;
+  onMidiChange: (patch: Partial<MidiSettings>) => void;
+  watchEntries: { item: WatchItem; status: WatchStatus }[];
+  onWatchAdd: (value: string) => void;
+  onWatchRemove: (value: string) => void;
+  thresholds: Settings['thresholds'];
+  onThresholdsChange: (patch: Partial<Settings['thresholds']>) => void;
+  eventBus: EventBusSettings;
+  eventBusStatus: ConnectionStatus;
+  onEventBusChange: (patch: Partial<EventBusSettings>) => void;
+  renderer: RendererMode;
+  onRendererChange: (renderer: RendererMode) => void;
+  perfOverlay: boolean;
+  onPerfOverlayChange: (enabled: boolean) => void;
+  onSharePreset: () => Promise<void>;
+  onResetSettings: () => void;
+  scene: SceneId;
+  onSceneChange: (scene: SceneId) => void;
+  isFeeOverlayOpen: boolean;
+  onFeeOverlayToggle: () => void;
+  isHistoryOpen: boolean;
+  onHistoryToggle: () => void;
   mempoolCount: number;
-  btcPrice: number;
+  price: PriceSnapshot;
+  /** No fresh quote from any provider lately; the shown price may be out of date. */
+  isPriceStale: boolean;
+  currency: Currency;
+  onCurrencyChange: (currency: Currency) => void;
   lastBlock?: Block;
+  isReplaying: boolean;
+  replaySpeed: number;
+  onReplaySpeedChange: (speed: number) => void;
+  onLoadReplay: (file: File) => void;
+  onExitReplay: () => void;
+  /** Running simulation scenario, or null for the live feed. */
+  simulation: ScenarioId | null;
+  onSimulate: (scenario: ScenarioId | null) => void;
+  isRecording: boolean;
+  recordedFrames: number;
+  canDownloadRecording: boolean;
+  onToggleRecording: () => void;
+  onDownloadRecording: () => void;
+  canExportWav: boolean;
+  isRendering: boolean;
+  renderError: string | null;
+  onExportWav: (fromBlockHeight?: number) => void;
+  network: NetworkConfig;
+  onNetworkChange: (config: NetworkConfig) => void;
 }
 
+/** Where the price came from and how fresh it is, e.g. "Kraken · live" or "Stale · Coinbase · 7m ago". */
+const priceStatus = ({ source, updatedAt, isLive }: PriceSnapshot, isStale: boolean) => {
+  if (!source || updatedAt === null) return 'No price yet';
+  const minutes = Math.floor((Date.now() - updatedAt) / 60_000);
+  const age = isLive && !isStale ? 'live' : minutes < 1 ? 'just now' : `${minutes}m ago`;
+  return `${isStale ? 'Stale · ' : ''}${source} · ${age}`;
+};
+
 const Controls: React.FC<ControlsProps> = ({
   isAudioStarted,
   onStartAudio,
   volume,
   onVolumeChange,
-  btcPrice,
-  lastBlock
+  soundPackId,
+  onSoundPackChange,
+  isHarmonyOn,
+  onHarmonyToggle,
+  isMoodOn,
+  onMoodToggle,
+  priceTrend,
+  mixerSettings,
+  onMixerChange,
+  onMixerReset,
+  isMidiSupported,
+  isMidiConnected,
+  midiError,
+  midiOutputs,
+  midiSettings,
+  onMidiConnect,
+  onMidiChange,
+  watchEntries,
+  onWatchAdd,
+  onWatchRemove,
+  thresholds,
+  onThresholdsChange,
+  eventBus,
+  eventBusStatus,
+  onEventBusChange,
+  renderer,
+  onRendererChange,
+  perfOverlay,
+  onPerfOverlayChange,
+  onSharePreset,
+  onResetSettings,
+  scene,
+  onSceneChange,
+  isFeeOverlayOpen,
+  onFeeOverlayToggle,
+  isHistoryOpen,
+  onHistoryToggle,
+  price,
+  isPriceStale,
+  currency,
+  onCurrencyChange,
+  lastBlock,
+  isReplaying,
+  replaySpeed,
+  onReplaySpeedChange,
+  onLoadReplay,
+  onExitReplay,
+  simulation,
+  onSimulate,
+  isRecording,
+  recordedFrames,
+  canDownloadRecording,
+  onToggleRecording,
+  onDownloadRecording,
+  canExportWav,
+  isRendering,
+  renderError,
+  onExportWav,
+  network,
+  onNetworkChange
 }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backendDraft, setBackendDraft] = useState(network.baseUrl);
+  const [backendError, setBackendError] = useState(false);
+  const [exportHeight, setExportHeight] = useState('');
+  const [isMixerOpen, setIsMixerOpen] = useState(false);
+  const [isMidiOpen, setIsMidiOpen] = useState(false);
+  const [isWatchlistOpen, setIsWatchlistOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    setBackendDraft(network.baseUrl);
+    setBackendError(false);
+  }, [network.baseUrl]);
+
+  const commitBackend = () => {
+    const baseUrl = parseBaseUrl(backendDraft);
+    if (!baseUrl) {
+      setBackendError(true);
+      return;
+    }
+    setBackendError(false);
+    if (baseUrl !== network.baseUrl) onNetworkChange({ ...network, baseUrl });
+  };
+
   return (
     <div className="fixed bottom-0 left-0 right-0 p-4 md:p-6 flex items-end justify-between gap-4 z-10 pointer-events-none">
       <div className="pointer-events-auto">
+        {isAudioStarted && isMixerOpen && (
+          <MixerPanel settings={mixerSettings} onChange={onMixerChange} onReset={onMixerReset} />
+        )}
+        {isAudioStarted && isMidiOpen && (
+          <MidiPanel
+            isSupported={isMidiSupported}
+            isConnected={isMidiConnected}
+            error={midiError}
+            outputs={midiOutputs}
+            settings={midiSettings}
+            onConnect={onMidiConnect}
+            onChange={onMidiChange}
+          />
+        )}
+        {isWatchlistOpen && (
+          <WatchlistPanel
+            entries={watchEntries}
+            tipHeight={lastBlock?.height}
+            settledConfirmations={thresholds.settledConfirmations}
+            onAdd={onWatchAdd}
+            onRemove={onWatchRemove}
+          />
+        )}
+        {isSettingsOpen && (
+          <SettingsPanel
+            thresholds={thresholds}
+            onThresholdsChange={onThresholdsChange}
+            eventBus={eventBus}
+            eventBusStatus={eventBusStatus}
+            onEventBusChange={onEventBusChange}
+            renderer={renderer}
+            onRendererChange={onRendererChange}
+            perfOverlay={perfOverlay}
+            onPerfOverlayChange={onPerfOverlayChange}
+            onShare={onSharePreset}
+            onReset={onResetSettings}
+          />
+        )}
         <div className="flex items-center gap-2 bg-[#081a0e]/60 backdrop-blur-md border border-green-900/40 px-3 py-2 rounded-xl shadow-2xl">
           {!isAudioStarted ? (
             <button
@@ -42,16 +249,218 @@ const Controls: React.FC<ControlsProps> = ({
                 onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
                 className="w-20 h-1.5 bg-green-900/50 rounded-lg appearance-none cursor-pointer accent-green-400"
               />
+              <select
+                value={soundPackId}
+                onChange={(e) => onSoundPackChange(e.target.value)}
+                title="Sound pack"
+                className="ml-2 bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+              >
+                {SOUND_PACKS.map(pack => (
+                  <option key={pack.id} value={pack.id} className="bg-black">{pack.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={onHarmonyToggle}
+                title="Chords and bass from projected blocks"
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isHarmonyOn ? 'text-green-400' : 'text-gray-600'}`}
+              >
+                Harmony
+              </button>
+              <button
+                onClick={onMoodToggle}
+                title={`Key, mode and effects follow the BTC price${isMoodOn ? ` (${priceTrend === 'flat' ? 'steady' : `${priceTrend}trend`})` : ''}`}
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isMoodOn ? 'text-green-400' : 'text-gray-600'}`}
+              >
+                Mood
+              </button>
+              <button
+                onClick={() => setIsMixerOpen(open => !open)}
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isMixerOpen ? 'text-white' : 'text-green-400'}`}
+              >
+                Mixer
+              </button>
+              <button
+                onClick={() => setIsMidiOpen(open => !open)}
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isMidiOpen ? 'text-white' : midiSettings.outputId ? 'text-cyan-400' : 'text-green-400'}`}
+              >
+                MIDI
+              </button>
+              <button
+                onClick={onFeeOverlayToggle}
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isFeeOverlayOpen ? 'text-white' : 'text-green-400'}`}
+              >
+                Fees
+              </button>
+              <button
+                onClick={onHistoryToggle}
+                className={`ml-1 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isHistoryOpen ? 'text-white' : 'text-green-400'}`}
+              >
+                History
+              </button>
             </div>
           )}
         </div>
+        <div className="mt-2 flex items-center gap-2 bg-black/40 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".jsonl,application/x-ndjson,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadReplay(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => setIsWatchlistOpen(open => !open)}
+            className={`text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isWatchlistOpen ? 'text-white' : 'text-yellow-400'}`}
+          >
+            Watch{watchEntries.length > 0 ? ` · ${watchEntries.length}` : ''}
+          </button>
+          <button
+            onClick={() => setIsSettingsOpen(open => !open)}
+            className={`text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isSettingsOpen ? 'text-white' : 'text-green-400'}`}
+          >
+            Settings
+          </button>
+          <select
+            value={scene}
+            onChange={(e) => onSceneChange(e.target.value as SceneId)}
+            title="Visualizer scene"
+            className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+          >
+            {SCENES.map(({ id, label }) => (
+              <option key={id} value={id} className="bg-black">{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-[10px] text-green-400 uppercase font-black tracking-[0.15em] hover:text-white"
+          >
+            Load replay
+          </button>
+          <select
+            value={simulation ?? ''}
+            onChange={(e) => onSimulate(e.target.value ? e.target.value as ScenarioId : null)}
+            title="Synthetic feed with no network"
+            className={`bg-transparent text-[10px] font-mono border border-white/10 rounded px-1 ${simulation ? 'text-cyan-400' : 'text-white'}`}
+          >
+            <option value="" className="bg-black">{simulation ? 'Go live' : 'Simulate…'}</option>
+            {SCENARIOS.map(({ id, label, description }) => (
+              <option key={id} value={id} title={description} className="bg-black">{label}</option>
+            ))}
+          </select>
+          {!isReplaying && !simulation && (
+            <>
+              <button
+                onClick={onToggleRecording}
+                className={`flex items-center gap-1.5 text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${isRecording ? 'text-red-400' : 'text-gray-400'}`}
+              >
+                <span className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-gray-600'}`}></span>
+                {isRecording ? `Stop · ${recordedFrames}` : 'Record'}
+              </button>
+              {canDownloadRecording && (
+                <button
+                  onClick={onDownloadRecording}
+                  className="text-[10px] text-yellow-400 uppercase font-black tracking-[0.15em] hover:text-white"
+                >
+                  Download
+                </button>
+              )}
+            </>
+          )}
+          {!isReplaying && !simulation && (
+            <>
+              <select
+                value={network.network}
+                onChange={(e) => onNetworkChange({ ...network, network: e.target.value as NetworkId })}
+                className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+              >
+                {(Object.keys(NETWORKS) as NetworkId[]).map(id => (
+                  <option key={id} value={id} className="bg-black">{NETWORKS[id].label}</option>
+                ))}
+              </select>
+              <input
+                type="url"
+                value={backendDraft}
+                onChange={(e) => setBackendDraft(e.target.value)}
+                onBlur={commitBackend}
+                onKeyDown={(e) => { if (e.key === 'Enter') commitBackend(); }}
+                title="Mempool backend URL"
+                className={`w-40 bg-transparent text-[10px] text-white font-mono border rounded px-1 ${backendError ? 'border-red-500' : 'border-white/10'}`}
+              />
+            </>
+          )}
+          {canExportWav && (
+            <>
+              <input
+                type="number"
+                value={exportHeight}
+                onChange={(e) => setExportHeight(e.target.value)}
+                placeholder="Block #"
+                title="Render from this block to the next one (blank = whole capture)"
+                className="w-20 bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+              />
+              <button
+                onClick={() => onExportWav(exportHeight ? parseInt(exportHeight, 10) : undefined)}
+                disabled={isRendering}
+                title={renderError ?? undefined}
+                className={`text-[10px] uppercase font-black tracking-[0.15em] hover:text-white disabled:opacity-50 ${renderError ? 'text-red-400' : 'text-cyan-400'}`}
+              >
+                {isRendering ? 'Rendering…' : 'Export WAV'}
+              </button>
+            </>
+          )}
+          {isReplaying && (
+            <>
+              <select
+                value={replaySpeed}
+                onChange={(e) => onReplaySpeedChange(parseFloat(e.target.value))}
+                className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+              >
+                {REPLAY_SPEEDS.map(speed => (
+                  <option key={speed} value={speed} className="bg-black">{speed}x</option>
+                ))}
+              </select>
+              <button
+                onClick={onExitReplay}
+                className="text-[10px] text-gray-400 uppercase font-black tracking-[0.15em] hover:text-white"
+              >
+                Go live
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       <div className="pointer-events-auto text-right">
         <div className="bg-black/40 backdrop-blur-md border border-white/5 px-4 py-3 rounded-xl shadow-2xl inline-block">
-          <div className="text-[10px] text-yellow-500 uppercase tracking-[0.2em] font-black mb-0.5">BTC</div>
+          <div className="flex items-center justify-end gap-1.5 mb-0.5">
+            <span className="text-[10px] text-yellow-500 uppercase tracking-[0.2em] font-black">
+              {currency === 'SATS' ? 'Sats per USD' : 'BTC'}
+            </span>
+            <select
+              value={currency}
+              onChange={(e) => onCurrencyChange(e.target.value as Currency)}
+              title="Display currency"
+              className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+            >
+              {CURRENCIES.map(({ id, label }) => (
+                <option key={id} value={id} className="bg-black">{label}</option>
+              ))}
+            </select>
+          </div>
           <div className="text-xl font-bold text-white leading-tight font-mono tracking-tighter">
-            ${btcPrice.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
+            {currency === 'SATS'
+              ? (price.prices.USD ? Math.round(100_000_000 / price.prices.USD).toLocaleString() : '—')
+              : formatMoney(price.prices[currency] ?? null, currency, 0)}
+          </div>
+          <div
+            title={price.updatedAt ? `Updated ${new Date(price.updatedAt).toLocaleTimeString()}` : undefined}
+            className={`text-[9px] font-mono ${isPriceStale ? 'text-red-400' : 'text-gray-500'}`}
+          >
+            {priceStatus(price, isPriceStale)}
           </div>
           <div className="text-[10px] text-gray-500 uppercase tracking-[0.15em] font-black mt-1.5">Block height</div>
           <div className="text-lg font-bold text-white font-mono tabular-nums">
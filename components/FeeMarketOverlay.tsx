@@ -0,0 +1,99 @@
+import React from 'react';
+import { FeeMarketSnapshot, FEE_BUCKETS } from '../services/feeMarket';
+
+interface FeeMarketOverlayProps {
+  snapshot: FeeMarketSnapshot;
+}
+
+const bucketLabel = (index: number) => {
+  const low = index === 0 ? 1 : FEE_BUCKETS[index - 1];
+  const high = FEE_BUCKETS[index];
+  return high === Infinity ? `${low}+` : `${low}–${high}`;
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div>
+    <div className="text-[9px] text-gray-500 uppercase font-black tracking-widest">{label}</div>
+    <div className="text-sm text-white font-mono">{value}</div>
+  </div>
+);
+
+export const getCongestionColor = (score: number) => {
+  if (score < 35) return 'bg-green-400 text-green-400';
+  if (score < 65) return 'bg-yellow-400 text-yellow-400';
+  return 'bg-red-500 text-red-500';
+};
+
+const FeeMarketOverlay: React.FC<FeeMarketOverlayProps> = ({ snapshot }) => {
+  const peak = Math.max(1, ...snapshot.histogram);
+  const { p10, p25, p50, p75, p90 } = snapshot.percentiles;
+  const flowRatio = snapshot.drainVbps > 0 ? snapshot.inflowVbps / snapshot.drainVbps : 0;
+
+  return (
+    <div className="fixed top-20 right-8 z-20 w-80 bg-black/70 backdrop-blur-md border border-white/5 px-4 py-3 rounded-xl shadow-2xl pointer-events-auto">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] text-green-400 uppercase font-black tracking-[0.2em]">Fee market</span>
+        <span className="flex items-center gap-2 text-[10px] text-gray-400 font-mono">
+          <span className={`w-2 h-2 rounded-full ${getCongestionColor(snapshot.congestion)}`}></span>
+          congestion {snapshot.congestion}
+        </span>
+      </div>
+
+      <div className="flex items-end gap-[2px] h-20 mb-1">
+        {snapshot.histogram.map((count, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-gradient-to-t from-green-600 to-yellow-400 rounded-t-sm opacity-80"
+            style={{ height: `${(count / peak) * 100}%` }}
+            title={`${bucketLabel(i)} sat/vB: ${count} txs`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[9px] text-gray-500 font-mono mb-3">
+        <span>1</span>
+        <span>sat/vB · last 10 min · {snapshot.sampleCount} txs</span>
+        <span>500+</span>
+      </div>
+
+      <div className="text-[9px] text-gray-500 uppercase font-black tracking-widest mb-1">Percentiles (sat/vB)</div>
+      <div className="grid grid-cols-5 text-center text-[11px] font-mono text-white mb-3">
+        {[['p10', p10], ['p25', p25], ['p50', p50], ['p75', p75], ['p90', p90]].map(([label, value]) => (
+          <div key={label as string}>
+            <div className="text-[9px] text-gray-500">{label}</div>
+            {(value as number).toFixed(1)}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <Stat
+          label="Next block min"
+          value={snapshot.nextBlockMinFee !== null ? `${snapshot.nextBlockMinFee.toFixed(1)} sat/vB` : '—'}
+        />
+        <Stat label="Arrivals" value={`${snapshot.arrivalRate.toFixed(1)} tx/s`} />
+      </div>
+
+      <div className="text-[9px] text-gray-500 uppercase font-black tracking-widest mb-1">
+        Inflow vs block space (vB/s)
+      </div>
+      <div className="space-y-1 text-[10px] font-mono">
+        <div className="flex items-center gap-2">
+          <span className="w-12 text-gray-400">in</span>
+          <div className="flex-1 h-1.5 bg-white/5 rounded">
+            <div className="h-1.5 bg-pink-500 rounded" style={{ width: `${Math.min(1, flowRatio / 2) * 100}%` }} />
+          </div>
+          <span className="w-14 text-right text-white">{Math.round(snapshot.inflowVbps).toLocaleString()}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-12 text-gray-400">drain</span>
+          <div className="flex-1 h-1.5 bg-white/5 rounded">
+            <div className="h-1.5 bg-cyan-400 rounded" style={{ width: '50%' }} />
+          </div>
+          <span className="w-14 text-right text-white">{Math.round(snapshot.drainVbps).toLocaleString()}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeeMarketOverlay;
@@ -1,13 +1,20 @@
 
 import React, { useState, useEffect } from 'react';
 import { Block } from '../types';
+import { NetworkConfig, NETWORKS, DEFAULT_BASE_URL } from '../services/network';
+import { getCongestionColor } from './FeeMarketOverlay';
+import { QueueStats } from '../services/txQueue';
 
 interface HeaderProps {
   lastBlock?: Block;
-  mempoolCount: number;
+  /** 0-100 score from the fee-market tracker. */
+  congestion: number;
+  /** Sequencer backlog; shown once bursts start being merged. */
+  queue: QueueStats;
+  network: NetworkConfig;
 }
 
-const Header: React.FC<HeaderProps> = ({ lastBlock, mempoolCount }) => {
+const Header: React.FC<HeaderProps> = ({ lastBlock, congestion, queue, network }) => {
   const [secondsSinceBlock, setSecondsSinceBlock] = useState<number>(0);
 
   useEffect(() => {
@@ -29,24 +36,38 @@ const Header: React.FC<HeaderProps> = ({ lastBlock, mempoolCount }) => {
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
-  // Determine congestion color based on mempool count
-  const getStatusColor = () => {
-    if (mempoolCount < 20000) return 'bg-green-400 text-green-400';
-    if (mempoolCount < 80000) return 'bg-yellow-400 text-yellow-400';
-    return 'bg-red-500 text-red-500';
-  };
+  const isMainnet = network.network === 'mainnet';
+  const backendHost = network.baseUrl !== DEFAULT_BASE_URL ? new URL(network.baseUrl).host : null;
 
   return (
     <header className="fixed top-0 left-0 right-0 p-8 flex justify-between items-start z-10 pointer-events-none">
       {/* Top bar: optional minimal status (e.g. last block ago) */}
       {lastBlock && (
         <div className="pointer-events-auto flex items-center gap-2">
-          <div className={`w-2 h-2 rounded-full animate-status-glow ${getStatusColor()}`}></div>
+          <div
+            className={`w-2 h-2 rounded-full animate-status-glow ${getCongestionColor(congestion)}`}
+            title={`Congestion ${congestion}/100`}
+          ></div>
           <span className="text-[10px] text-gray-500 font-mono">
             Last block {formatTime(secondsSinceBlock)} ago
           </span>
+          <span
+            className="text-[10px] text-gray-500 font-mono"
+            title={`${queue.pending.toLocaleString()} txs waiting to play`}
+          >
+            · Queue {queue.depth.toLocaleString()}
+            {queue.aggregated > 0 && ` · ${queue.aggregated.toLocaleString()} merged`}
+          </span>
         </div>
       )}
+      <div className="pointer-events-auto ml-auto flex items-center gap-2">
+        <span className={`text-[10px] uppercase font-black tracking-[0.2em] px-2 py-0.5 rounded border ${isMainnet ? 'text-green-400 border-green-900/60' : 'text-cyan-300 border-cyan-500/60 bg-cyan-500/10'}`}>
+          {NETWORKS[network.network].label}
+        </span>
+        {backendHost && (
+          <span className="text-[10px] text-gray-500 font-mono">{backendHost}</span>
+        )}
+      </div>
     </header>
   );
 };
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryBlock, HistoryRange, HistorySample, historyStore } from '../services/history';
+import { NetworkId } from '../services/network';
+
+interface HistoryChartsProps {
+  network: NetworkId;
+}
+
+const RANGES: { id: HistoryRange; label: string; spanMs: number }[] = [
+  { id: 'hour', label: '1h', spanMs: 3600_000 },
+  { id: 'day', label: '24h', spanMs: 86400_000 },
+  { id: 'week', label: '7d', spanMs: 7 * 86400_000 }
+];
+
+const METRICS: { label: string; color: string; pick: (s: HistorySample) => number; format: (v: number) => string }[] = [
+  { label: 'Mempool txs', color: '#4ade80', pick: s => s.count, format: v => Math.round(v).toLocaleString() },
+  { label: 'Mempool size', color: '#22d3ee', pick: s => s.vsize, format: v => `${(v / 1e6).toFixed(1)} MvB` },
+  { label: 'Total fees', color: '#facc15', pick: s => s.totalFee, format: v => `${(v / 1e8).toFixed(3)} BTC` },
+  { label: 'Arrivals', color: '#ec4899', pick: s => s.arrivalRate, format: v => `${v.toFixed(1)} tx/s` },
+  { label: 'BTC price', color: '#f97316', pick: s => s.btcPrice, format: v => `$${Math.round(v).toLocaleString()}` }
+];
+
+const REFRESH_MS = 15_000;
+
+interface ChartProps {
+  samples: HistorySample[];
+  blocks: HistoryBlock[];
+  from: number;
+  span: number;
+  metric: typeof METRICS[number];
+}
+
+const Chart: React.FC<ChartProps> = ({ samples, blocks, from, span, metric }) => {
+  // Zero readings mean "not known yet" (price before the first fetch, stats before the first frame)
+  const points = samples.filter(s => metric.pick(s) > 0);
+  const values = points.map(metric.pick);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const x = (time: number) => ((time - from) / span) * 100;
+  const y = (value: number) => 38 - ((value - min) / range) * 36;
+  const latest = values[values.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between text-[9px] uppercase font-black tracking-widest mb-0.5">
+        <span className="text-gray-500">{metric.label}</span>
+        <span className="font-mono normal-case tracking-normal text-white">
+          {latest !== undefined ? metric.format(latest) : '—'}
+        </span>
+      </div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-12 bg-white/[0.02] rounded">
+        {blocks.map(block => (
+          <line
+            key={block.time}
+            x1={x(block.time)}
+            x2={x(block.time)}
+            y1={0}
+            y2={40}
+            stroke="#ffffff"
+            strokeOpacity={0.15}
+            strokeWidth={0.3}
+            vectorEffect="non-scaling-stroke"
+          >
+            <title>Block {block.height.toLocaleString()}</title>
+          </line>
+        ))}
+        {points.length > 1 && (
+          <polyline
+            points={points.map(s => `${x(s.time)},${y(metric.pick(s))}`).join(' ')}
+            fill="none"
+            stroke={metric.color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
+
+const HistoryCharts: React.FC<HistoryChartsProps> = ({ network }) => {
+  const [range, setRange] = useState<HistoryRange>('hour');
+  const [series, setSeries] = useState<{ samples: HistorySample[]; blocks: HistoryBlock[]; now: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const now = Date.now();
+        const result = await historyStore.getSeries(range, network, now);
+        if (!cancelled) {
+          setSeries({ ...result, now });
+          setError(null);
+        }
+      } catch (err) {
+        console.error('Failed to read history', err);
+        if (!cancelled) setError('History is unavailable in this browser');
+      }
+    };
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [range, network]);
+
+  const span = RANGES.find(r => r.id === range)!.spanMs;
+
+  return (
+    <div className="fixed top-20 left-8 z-20 w-96 bg-black/70 backdrop-blur-md border border-white/5 px-4 py-3 rounded-xl shadow-2xl pointer-events-auto">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] text-green-400 uppercase font-black tracking-[0.2em]">History</span>
+        <div className="flex gap-2">
+          {RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${range === r.id ? 'text-white' : 'text-gray-500'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="text-[11px] text-red-400 font-mono">{error}</div>
+      ) : !series || series.samples.length === 0 ? (
+        <div className="text-[11px] text-gray-500 font-mono">Collecting samples — leave the radio playing to build history.</div>
+      ) : (
+        <div className="space-y-2">
+          {METRICS.map(metric => (
+            <Chart
+              key={metric.label}
+              samples={series.samples}
+              blocks={series.blocks}
+              from={series.now - span}
+              span={span}
+              metric={metric}
+            />
+          ))}
+          <div className="text-[9px] text-gray-500 font-mono text-right">
+            {series.blocks.length} blocks · {series.samples.length} samples
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryCharts;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { MidiPort, MidiSettings } from '../services/midiOutput';
+import { VoiceId } from '../services/soundPacks';
+
+interface MidiPanelProps {
+  isSupported: boolean;
+  isConnected: boolean;
+  error: string | null;
+  outputs: MidiPort[];
+  settings: MidiSettings;
+  onConnect: () => void;
+  onChange: (patch: Partial<MidiSettings>) => void;
+}
+
+const TIERS: { id: VoiceId; label: string }[] = [
+  { id: 'pluck', label: 'Pluck' },
+  { id: 'marimba', label: 'Marimba' },
+  { id: 'steelDrum', label: 'Steel drum' },
+  { id: 'whale', label: 'Whale' },
+  { id: 'skank', label: 'Organ skank' }
+];
+
+const CHANNEL_NUMBERS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const selectClass = 'bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1';
+
+const ChannelSelect: React.FC<{ value: number; onChange: (channel: number) => void }> = ({ value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(parseInt(e.target.value, 10))} className={selectClass}>
+    {CHANNEL_NUMBERS.map(n => (
+      <option key={n} value={n} className="bg-black">Ch {n}</option>
+    ))}
+  </select>
+);
+
+const MidiPanel: React.FC<MidiPanelProps> = ({ isSupported, isConnected, error, outputs, settings, onConnect, onChange }) => {
+  if (!isSupported) {
+    return (
+      <div className="mb-2 w-72 bg-black/70 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl text-[10px] text-gray-400 font-mono">
+        This browser doesn't support Web MIDI.
+      </div>
+    );
+  }
+
+  const { block } = settings;
+  const setBlock = (patch: Partial<MidiSettings['block']>) => onChange({ block: { ...block, ...patch } });
+
+  return (
+    <div className="mb-2 w-72 bg-black/70 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl">
+      {!isConnected ? (
+        <div className="flex items-center justify-between">
+          <span className={`text-[10px] font-mono ${error ? 'text-red-400' : 'text-gray-400'}`}>{error ?? 'MIDI is off'}</span>
+          <button
+            onClick={onConnect}
+            className="text-[10px] text-cyan-400 uppercase font-black tracking-[0.15em] hover:text-white"
+          >
+            Enable MIDI
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 mb-2">
+            <select
+              value={settings.outputId ?? ''}
+              onChange={(e) => onChange({ outputId: e.target.value || null })}
+              className={`flex-1 ${selectClass}`}
+            >
+              <option value="" className="bg-black">No output</option>
+              {outputs.map(port => (
+                <option key={port.id} value={port.id} className="bg-black">{port.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-[10px] text-gray-400 font-mono" title="Silence the built-in synth for notes sent over MIDI">
+              <input
+                type="checkbox"
+                checked={settings.replaceSynth}
+                onChange={(e) => onChange({ replaceSynth: e.target.checked })}
+                className="accent-green-400"
+              />
+              MIDI only
+            </label>
+          </div>
+          <div className="grid grid-cols-[1fr_auto] gap-x-2 gap-y-1 items-center">
+            {TIERS.map(({ id, label }) => (
+              <React.Fragment key={id}>
+                <span className="text-[10px] text-green-400 font-mono">{label}</span>
+                <ChannelSelect
+                  value={settings.channels[id]}
+                  onChange={(channel) => onChange({ channels: { ...settings.channels, [id]: channel } })}
+                />
+              </React.Fragment>
+            ))}
+          </div>
+          <div className="mt-2 pt-2 border-t border-white/5 flex items-center gap-1">
+            <span className="text-[10px] text-yellow-400 font-mono mr-auto">Block</span>
+            <ChannelSelect value={block.channel} onChange={(channel) => setBlock({ channel })} />
+            <select
+              value={block.kind}
+              onChange={(e) => setBlock({ kind: e.target.value as MidiSettings['block']['kind'] })}
+              className={selectClass}
+            >
+              <option value="cc" className="bg-black">CC</option>
+              <option value="program" className="bg-black">Program</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              max="127"
+              value={block.number}
+              onChange={(e) => setBlock({ number: parseInt(e.target.value, 10) || 0 })}
+              title={block.kind === 'cc' ? 'Controller number' : 'Program number'}
+              className={`w-10 ${selectClass}`}
+            />
+            {block.kind === 'cc' && (
+              <input
+                type="number"
+                min="0"
+                max="127"
+                value={block.value}
+                onChange={(e) => setBlock({ value: parseInt(e.target.value, 10) || 0 })}
+                title="Controller value"
+                className={`w-10 ${selectClass}`}
+              />
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { CHANNELS, ChannelId, ChannelSettings, MixerSettings } from '../services/mixer';
+
+interface MixerPanelProps {
+  settings: MixerSettings;
+  onChange: (id: ChannelId, patch: Partial<ChannelSettings>) => void;
+  onReset: () => void;
+}
+
+const Slider: React.FC<{
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, min, max, onChange }) => (
+  <input
+    type="range"
+    min={min}
+    max={max}
+    step="0.01"
+    value={value}
+    title={`${label}: ${value.toFixed(2)}`}
+    onChange={(e) => onChange(parseFloat(e.target.value))}
+    className="w-14 h-1 bg-green-900/50 rounded-lg appearance-none cursor-pointer accent-green-400"
+  />
+);
+
+const MixerPanel: React.FC<MixerPanelProps> = ({ settings, onChange, onReset }) => {
+  return (
+    <div className="mb-2 bg-black/70 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl">
+      <div className="grid grid-cols-[6rem_repeat(4,3.5rem)_auto] gap-x-2 gap-y-1.5 items-center text-[9px] text-gray-500 uppercase font-black tracking-[0.15em]">
+        <span>Channel</span>
+        <span>Gain</span>
+        <span>Pan</span>
+        <span>Verb</span>
+        <span>Delay</span>
+        <span></span>
+        {CHANNELS.map(({ id, label }) => {
+          const channel = settings[id];
+          return (
+            <React.Fragment key={id}>
+              <span className="text-[10px] text-green-400 normal-case tracking-normal font-mono">{label}</span>
+              <Slider label="Gain" value={channel.gain} min={0} max={1.5} onChange={(gain) => onChange(id, { gain })} />
+              <Slider label="Pan" value={channel.pan} min={-1} max={1} onChange={(pan) => onChange(id, { pan })} />
+              <Slider label="Reverb send" value={channel.reverbSend} min={0} max={1} onChange={(reverbSend) => onChange(id, { reverbSend })} />
+              <Slider label="Delay send" value={channel.delaySend} min={0} max={1} onChange={(delaySend) => onChange(id, { delaySend })} />
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onChange(id, { mute: !channel.mute })}
+                  className={`w-5 h-5 rounded text-[9px] font-black ${channel.mute ? 'bg-red-500 text-white' : 'bg-white/5 text-gray-400'}`}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onChange(id, { solo: !channel.solo })}
+                  className={`w-5 h-5 rounded text-[9px] font-black ${channel.solo ? 'bg-yellow-400 text-black' : 'bg-white/5 text-gray-400'}`}
+                >
+                  S
+                </button>
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+      <button
+        onClick={onReset}
+        className="mt-2 text-[9px] text-gray-500 uppercase font-black tracking-[0.15em] hover:text-white"
+      >
+        Reset mixer
+      </button>
+    </div>
+  );
+};
+
+export default MixerPanel;
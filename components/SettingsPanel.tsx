@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Settings } from '../services/settings';
+import { EventBusSettings } from '../services/eventBus';
+import { ConnectionStatus } from '../services/dataSource';
+import { RendererMode, supportsWorkerRenderer } from './scenes/renderer';
+
+interface SettingsPanelProps {
+  thresholds: Settings['thresholds'];
+  onThresholdsChange: (patch: Partial<Settings['thresholds']>) => void;
+  eventBus: EventBusSettings;
+  eventBusStatus: ConnectionStatus;
+  onEventBusChange: (patch: Partial<EventBusSettings>) => void;
+  renderer: RendererMode;
+  onRendererChange: (renderer: RendererMode) => void;
+  perfOverlay: boolean;
+  onPerfOverlayChange: (enabled: boolean) => void;
+  /** Resolves once the preset link is on the clipboard. */
+  onShare: () => Promise<void>;
+  onReset: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  thresholds,
+  onThresholdsChange,
+  eventBus,
+  eventBusStatus,
+  onEventBusChange,
+  renderer,
+  onRendererChange,
+  perfOverlay,
+  onPerfOverlayChange,
+  onShare,
+  onReset
+}) => {
+  const [shareState, setShareState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [relayDraft, setRelayDraft] = useState(eventBus.url);
+  const [relayError, setRelayError] = useState(false);
+
+  useEffect(() => setRelayDraft(eventBus.url), [eventBus.url]);
+
+  const commitRelay = () => {
+    const url = relayDraft.trim();
+    const valid = /^wss?:\/\/.+/.test(url);
+    setRelayError(!valid);
+    if (valid && url !== eventBus.url) onEventBusChange({ url });
+  };
+
+  const share = async () => {
+    try {
+      await onShare();
+      setShareState('copied');
+    } catch (err) {
+      console.error('Failed to copy preset link', err);
+      setShareState('failed');
+    }
+    setTimeout(() => setShareState('idle'), 2000);
+  };
+
+  return (
+    <div className="mb-2 w-72 bg-black/70 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl">
+      <div className="grid grid-cols-[1fr_4rem] gap-x-2 gap-y-1.5 items-center">
+        <label className="text-[10px] text-green-400 font-mono" htmlFor="whale-threshold">Whale bubble (BTC)</label>
+        <input
+          id="whale-threshold"
+          type="number"
+          min="0.01"
+          step="0.1"
+          value={thresholds.whaleBtc}
+          onChange={(e) => {
+            const whaleBtc = parseFloat(e.target.value);
+            if (whaleBtc > 0) onThresholdsChange({ whaleBtc });
+          }}
+          className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+        />
+        <label className="text-[10px] text-green-400 font-mono" htmlFor="settled-confirmations">Watch settles after</label>
+        <input
+          id="settled-confirmations"
+          type="number"
+          min="1"
+          max="100"
+          step="1"
+          value={thresholds.settledConfirmations}
+          onChange={(e) => {
+            const settledConfirmations = parseInt(e.target.value, 10);
+            if (settledConfirmations >= 1) onThresholdsChange({ settledConfirmations });
+          }}
+          className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+        />
+      </div>
+      <div className="mt-2 pt-2 border-t border-white/5 flex items-center gap-2">
+        <label className="flex items-center gap-1 text-[10px] text-green-400 font-mono mr-auto">
+          <input
+            type="checkbox"
+            checked={perfOverlay}
+            onChange={(e) => onPerfOverlayChange(e.target.checked)}
+            className="accent-green-400"
+          />
+          FPS overlay
+        </label>
+        <select
+          value={renderer}
+          onChange={(e) => onRendererChange(e.target.value as RendererMode)}
+          title="Where the visualizer draws"
+          className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+        >
+          <option value="main" className="bg-black">Main thread</option>
+          <option value="worker" className="bg-black" disabled={!supportsWorkerRenderer()}>Worker</option>
+        </select>
+      </div>
+      <div className="mt-2 pt-2 border-t border-white/5">
+        <div className="flex items-center gap-2 mb-1">
+          <label className="flex items-center gap-1 text-[10px] text-green-400 font-mono mr-auto">
+            <input
+              type="checkbox"
+              checked={eventBus.enabled}
+              onChange={(e) => onEventBusChange({ enabled: e.target.checked })}
+              className="accent-green-400"
+            />
+            Event relay
+          </label>
+          {eventBus.enabled && (
+            <span
+              title={eventBusStatus}
+              className={`w-2 h-2 rounded-full ${eventBusStatus === 'connected' ? 'bg-green-400' : eventBusStatus === 'connecting' ? 'bg-yellow-400' : 'bg-red-500'}`}
+            ></span>
+          )}
+          <select
+            value={eventBus.format}
+            onChange={(e) => onEventBusChange({ format: e.target.value as EventBusSettings['format'] })}
+            className="bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+          >
+            <option value="json" className="bg-black">JSON</option>
+            <option value="osc" className="bg-black">OSC</option>
+          </select>
+        </div>
+        <input
+          type="url"
+          value={relayDraft}
+          onChange={(e) => setRelayDraft(e.target.value)}
+          onBlur={commitRelay}
+          onKeyDown={(e) => { if (e.key === 'Enter') commitRelay(); }}
+          title="Relay websocket URL"
+          className={`w-full bg-transparent text-[10px] text-white font-mono border rounded px-1 ${relayError ? 'border-red-500' : 'border-white/10'}`}
+        />
+      </div>
+      <div className="flex justify-between mt-2">
+        <button
+          onClick={share}
+          title="Copy a link that opens the radio with these settings"
+          className={`text-[10px] uppercase font-black tracking-[0.15em] hover:text-white ${shareState === 'failed' ? 'text-red-400' : 'text-cyan-400'}`}
+        >
+          {shareState === 'copied' ? 'Link copied' : shareState === 'failed' ? 'Copy failed' : 'Share preset'}
+        </button>
+        <button
+          onClick={onReset}
+          className="text-[10px] text-gray-400 uppercase font-black tracking-[0.15em] hover:text-white"
+        >
+          Reset all
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
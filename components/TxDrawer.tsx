@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { TxDetail } from '../types';
+import { fetchTxDetail } from '../services/txDetails';
+import { shortId } from '../services/watchlist';
+
+interface TxDrawerProps {
+  txid: string;
+  apiUrl: string;
+  tipHeight?: number;
+  onClose: () => void;
+}
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; detail: TxDetail };
+
+const formatBtc = (sats?: number) =>
+  sats === undefined ? '—' : `${(sats / 100_000_000).toFixed(8)} BTC`;
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 py-1 border-b border-white/5">
+    <span className="text-[10px] text-gray-500 uppercase font-black tracking-widest">{label}</span>
+    <span className="text-[11px] text-white font-mono text-right">{children}</span>
+  </div>
+);
+
+const TxDrawer: React.FC<TxDrawerProps> = ({ txid, apiUrl, tipHeight, onClose }) => {
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+  const [attempt, setAttempt] = useState(0);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+    fetchTxDetail(apiUrl, txid, controller.signal)
+      .then(detail => setState({ status: 'ready', detail }))
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Tx detail fetch error', err);
+        setState({ status: 'error', message: err instanceof Error ? err.message : 'Request failed' });
+      });
+    return () => controller.abort();
+  }, [txid, apiUrl, attempt]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const copyTxid = async () => {
+    try {
+      await navigator.clipboard.writeText(txid);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error('Clipboard error', err);
+    }
+  };
+
+  return (
+    <aside className="fixed top-0 right-0 bottom-0 w-full max-w-md z-50 bg-[#0a120b]/95 backdrop-blur-3xl border-l border-green-500/20 shadow-[0_0_80px_rgba(34,197,94,0.15)] p-6 overflow-y-auto">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <div className="text-[11px] text-green-400 uppercase tracking-[0.3em] font-black mb-1">Transaction</div>
+          <div className="text-[11px] text-white font-mono break-all">{txid}</div>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xl leading-none" title="Close">×</button>
+      </div>
+      <button
+        onClick={copyTxid}
+        className="mb-6 text-[10px] text-yellow-400 uppercase font-black tracking-[0.15em] hover:text-white"
+      >
+        {copied ? 'Copied' : 'Copy txid'}
+      </button>
+
+      {state.status === 'loading' && (
+        <div className="text-[11px] text-gray-400 font-mono animate-pulse">Fetching transaction…</div>
+      )}
+
+      {state.status === 'error' && (
+        <div className="text-[11px] font-mono">
+          <div className="text-red-400 mb-2">{state.message}</div>
+          <button
+            onClick={() => setAttempt(a => a + 1)}
+            className="text-[10px] text-green-400 uppercase font-black tracking-[0.15em] hover:text-white"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {state.status === 'ready' && (() => {
+        const { detail } = state;
+        const confirmations = detail.confirmed && detail.blockHeight !== undefined && tipHeight !== undefined
+          ? tipHeight - detail.blockHeight + 1
+          : null;
+        return (
+          <>
+            <Row label="Status">
+              {detail.confirmed
+                ? `Confirmed in ${detail.blockHeight?.toLocaleString()}${confirmations !== null ? ` · ${confirmations} conf` : ''}`
+                : 'Unconfirmed'}
+            </Row>
+            <Row label="Fee">{detail.fee.toLocaleString()} sats · {detail.feeRate.toFixed(1)} sat/vB</Row>
+            <Row label="Size">{detail.size.toLocaleString()} B · {detail.vsize.toLocaleString()} vB</Row>
+            <Row label="Weight">{detail.weight.toLocaleString()} WU</Row>
+            <Row label="RBF">{detail.rbf ? 'Signalled' : 'No'}</Row>
+            {!detail.confirmed && (
+              <Row label="Cluster">{detail.ancestors.length} ancestors · {detail.descendants.length} descendants</Row>
+            )}
+
+            <div className="mt-6 text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">
+              Inputs ({detail.inputs.length})
+            </div>
+            {detail.inputs.map((input, i) => (
+              <div key={`${input.txid}:${input.vout}:${i}`} className="flex justify-between gap-4 text-[10px] font-mono py-0.5">
+                <span className="text-gray-300" title={input.address}>
+                  {input.isCoinbase ? 'Coinbase' : input.address ? shortId(input.address) : `${shortId(input.txid)}:${input.vout}`}
+                </span>
+                <span className="text-white">{formatBtc(input.value)}</span>
+              </div>
+            ))}
+
+            <div className="mt-4 text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">
+              Outputs ({detail.outputs.length})
+            </div>
+            {detail.outputs.map((output, i) => (
+              <div key={i} className="flex justify-between gap-4 text-[10px] font-mono py-0.5">
+                <span className="text-gray-300" title={output.address}>
+                  {output.address ? shortId(output.address) : output.type ?? 'unknown'}
+                </span>
+                <span className="text-white">{formatBtc(output.value)}</span>
+              </div>
+            ))}
+
+            {(detail.ancestors.length > 0 || detail.descendants.length > 0) && (
+              <>
+                <div className="mt-4 text-[10px] text-gray-500 uppercase font-black tracking-widest mb-2">CPFP cluster</div>
+                {[...detail.ancestors.map(tx => ({ tx, role: 'Ancestor' })), ...detail.descendants.map(tx => ({ tx, role: 'Descendant' }))]
+                  .map(({ tx, role }) => (
+                    <div key={tx.txid} className="flex justify-between gap-4 text-[10px] font-mono py-0.5">
+                      <span className="text-gray-300">{role} {shortId(tx.txid)}</span>
+                      <span className="text-white">{tx.weight > 0 ? (tx.fee / (tx.weight / 4)).toFixed(1) : '—'} sat/vB</span>
+                    </div>
+                  ))}
+              </>
+            )}
+          </>
+        );
+      })()}
+    </aside>
+  );
+};
+
+export default TxDrawer;
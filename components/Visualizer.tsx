@@ -1,255 +1,203 @@
-
 import React, { useRef, useEffect, useImperativeHandle, forwardRef, useState } from 'react';
+import { NetworkId, NETWORKS } from '../services/network';
+import { SceneEvent, SceneEvents, SceneId, SceneItem } from './scenes/types';
+import { RendererMode, RendererStats, SceneRenderer, applySceneEvent, supportsWorkerRenderer } from './scenes/renderer';
+import type { RenderWorkerReply, RenderWorkerRequest } from './scenes/renderWorker';
+import { Currency, PriceTable, convertBtc, formatMoney } from '../services/priceFeed';
 
-interface Bubble {
-  id: string;
-  x: number;
-  y: number;
-  radius: number;
-  vx: number;
-  vy: number;
-  baseHue: number;
-  alpha: number;
-  life: number;
-  value: number;
-  feeRate: number;
-  noiseOffsets: number[]; // Unique offsets for each vertex
-  isWhale: boolean;
-  pulseOffset: number;
-}
-
-export interface VisualizerHandle {
-  addTransaction: (tx: { id: string, value: number, feeRate: number }) => void;
-  flashBlock: () => void;
-}
+export type VisualizerHandle = SceneEvents;
 
 interface VisualizerProps {
-  blockHeight?: number;
-  btcPrice: number;
+  /** Currency the tooltip values txs in. */
+  currency: Currency;
+  prices: PriceTable;
+  network: NetworkId;
+  /** Bubbles worth at least this many BTC are drawn as whales. */
+  whaleBtc: number;
+  scene: SceneId;
+  /** Draw on an OffscreenCanvas in a worker where supported. */
+  renderer: RendererMode;
+  /** FPS, frame time and item count in the corner. */
+  showStats: boolean;
+  /** Fired when a bubble is clicked, with its txid. */
+  onSelectTransaction?: (txid: string) => void;
 }
 
-const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({ blockHeight, btcPrice }, ref) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const bubblesRef = useRef<Bubble[]>([]);
-  const flashAlphaRef = useRef(0);
-  const mouseRef = useRef({ x: -1000, y: -1000 });
-  const isOverCanvasRef = useRef(false);
-  const avgFeeRateRef = useRef(1);
-  
-  const [hoveredTx, setHoveredTx] = useState<Bubble | null>(null);
+const STATS_INTERVAL_MS = 500;
 
-  // Helper to map fee rate to a nuanced tropical/cyber hue
-  const getHueFromFeeRate = (feeRate: number) => {
-    // 1 sat/vB -> 210 (Deep Blue)
-    // 50 sat/vB -> 140 (Island Green)
-    // 150 sat/vB -> 45 (Sunset Orange/Yellow)
-    // 400+ sat/vB -> 0 (Fiery Red)
-    if (feeRate <= 1) return 210;
-    if (feeRate <= 50) return 210 - (feeRate / 50) * 70;
-    if (feeRate <= 150) return 140 - ((feeRate - 50) / 100) * 95;
-    return Math.max(0, 45 - ((feeRate - 150) / 250) * 45);
-  };
+const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({ currency, prices, network, whaleBtc, scene, renderer, showStats, onSelectTransaction }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  const mode: RendererMode = renderer === 'worker' && supportsWorkerRenderer() ? 'worker' : 'main';
+  const tint = NETWORKS[network].tint;
 
-  useImperativeHandle(ref, () => ({
-    addTransaction: (tx) => {
-      const btc = tx.value / 100_000_000;
-      const radius = Math.max(20, Math.min(180, Math.sqrt(btc * 30000) + 30));
-      const isWhale = btc >= 1.0;
-      
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+  // Main-thread renderer; lives for the component's lifetime so scene state survives prop changes
+  const rendererRef = useRef<SceneRenderer | null>(null);
+  if (!rendererRef.current) {
+    rendererRef.current = new SceneRenderer({ width: window.innerWidth, height: window.innerHeight, whaleBtc, scene, tint });
+  }
+  const workerRef = useRef<Worker | null>(null);
+  const mouseRef = useRef({ x: -1000, y: -1000 });
+  const onSelectRef = useRef(onSelectTransaction);
+  onSelectRef.current = onSelectTransaction;
 
-      const numVertices = 14;
-      const noiseOffsets = Array.from({ length: numVertices }, () => Math.random() * Math.PI * 2);
+  const [hoveredTx, setHoveredTx] = useState<SceneItem | null>(null);
+  const [stats, setStats] = useState<RendererStats | null>(null);
+  const showStatsRef = useRef(showStats);
+  showStatsRef.current = showStats;
 
-      bubblesRef.current.push({
-        id: tx.id || Math.random().toString(),
-        x: Math.random() * canvas.width,
-        y: canvas.height + radius * 2,
-        radius,
-        vx: (Math.random() - 0.5) * 0.7,
-        vy: isWhale ? -(Math.random() * 0.2 + 0.1) : -(Math.random() * 1.5 + 0.4),
-        baseHue: getHueFromFeeRate(tx.feeRate),
-        alpha: 0.85,
-        life: 1.0,
-        value: tx.value,
-        feeRate: tx.feeRate,
-        noiseOffsets,
-        isWhale,
-        pulseOffset: Math.random() * 1000
-      });
+  const send = (event: SceneEvent) => {
+    if (workerRef.current) workerRef.current.postMessage({ type: 'event', event } satisfies RenderWorkerRequest);
+    else if (rendererRef.current) applySceneEvent(rendererRef.current, event);
+  };
 
-      avgFeeRateRef.current = avgFeeRateRef.current * 0.98 + tx.feeRate * 0.02;
-    },
-    flashBlock: () => {
-      flashAlphaRef.current = 1.0;
-    }
+  useImperativeHandle(ref, () => ({
+    addTransaction: (tx) => send({ method: 'addTransaction', args: [tx] }),
+    addCluster: (cluster) => send({ method: 'addCluster', args: [cluster] }),
+    flashBlock: () => send({ method: 'flashBlock', args: [] }),
+    confirmTransactions: (txids) => send({ method: 'confirmTransactions', args: [txids] }),
+    removeTransactions: (txids) => send({ method: 'removeTransactions', args: [txids] }),
+    replaceTransaction: (txid, tx) => send({ method: 'replaceTransaction', args: [txid, tx] }),
+    pinTransaction: (tx, label) => send({ method: 'pinTransaction', args: [tx, label] }),
+    unpinTransaction: (txid) => send({ method: 'unpinTransaction', args: [txid] })
   }));
 
+  // Only restarts when switching renderers. Each run gets a fresh canvas: one handed to a
+  // worker can't be drawn on (or transferred) again.
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let animationFrameId: number;
-    let time = 0;
-
-    const render = () => {
-      time += 0.015;
-      
-      const congestionIntensity = Math.min(1, avgFeeRateRef.current / 300);
-      const bgColor = `rgba(${6 + congestionIntensity * 35}, ${10 + congestionIntensity * 5}, ${20}, 1)`;
-      ctx.fillStyle = bgColor;
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      // --- Cyber Grid ---
-      ctx.strokeStyle = `rgba(34, 197, 94, ${0.03 + congestionIntensity * 0.07})`;
-      ctx.lineWidth = 1;
-      const gridSize = 120;
-      const gridOffset = (time * 15) % gridSize;
-      ctx.beginPath();
-      for (let x = 0; x <= canvas.width; x += gridSize) {
-        ctx.moveTo(x, 0); ctx.lineTo(x, canvas.height);
+    const container = containerRef.current;
+    if (!container) return;
+    const canvas = document.createElement('canvas');
+    canvas.className = 'block w-full h-full cursor-crosshair';
+    container.appendChild(canvas);
+    const main = rendererRef.current!;
+    let worker: Worker | null = null;
+    let animationFrameId = 0;
+    let statsTimer = 0;
+    let lastHover: SceneItem | null = null;
+
+    if (mode === 'worker') {
+      worker = new Worker(new URL('./scenes/renderWorker.ts', import.meta.url), { type: 'module' });
+      workerRef.current = worker;
+      const offscreen = canvas.transferControlToOffscreen();
+      const init: RenderWorkerRequest = {
+        type: 'init', canvas: offscreen, width: window.innerWidth, height: window.innerHeight, whaleBtc, scene, tint
+      };
+      worker.postMessage(init, [offscreen]);
+      worker.onmessage = (e: MessageEvent<RenderWorkerReply>) => {
+        const message = e.data;
+        if (message.type === 'hover') setHoveredTx(message.item);
+        else if (message.type === 'select') onSelectRef.current?.(message.txid);
+        else if (showStatsRef.current) setStats(message.stats);
+      };
+      worker.onerror = (err) => console.error('Render worker failed:', err);
+    } else {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        canvas.remove();
+        return;
       }
-      for (let y = gridOffset; y <= canvas.height; y += gridSize) {
-        ctx.moveTo(0, y); ctx.lineTo(canvas.width, y);
-      }
-      ctx.stroke();
-
-      // --- Fluid Bubbles ---
-      const bubbles = bubblesRef.current;
-      let currentHover: Bubble | null = null;
-
-      for (let i = bubbles.length - 1; i >= 0; i--) {
-        const b = bubbles[i];
-        // Drift movement
-        b.x += b.vx + Math.sin(time * 0.5 + b.pulseOffset) * 0.4;
-        b.y += b.vy;
-        b.life -= 0.0007;
-        b.alpha = Math.min(0.9, b.life * 3);
-
-        const dx = b.x - mouseRef.current.x;
-        const dy = b.y - mouseRef.current.y;
-        if (Math.sqrt(dx * dx + dy * dy) < b.radius) currentHover = b;
-
-        ctx.save();
-        ctx.globalCompositeOperation = 'screen';
-        ctx.beginPath();
-        
-        // Render organic, asymmetrical blob shape
-        const numV = b.noiseOffsets.length;
-        for (let j = 0; j <= numV; j++) {
-          const idx = j % numV;
-          const angle = (j / numV) * Math.PI * 2;
-          
-          // Combine multiple noise components for fluid asymmetrical wobbling
-          const noiseFactor = 
-            Math.sin(time * 1.5 + b.noiseOffsets[idx]) * 0.12 +
-            Math.cos(time * 0.8 + b.noiseOffsets[(idx + 3) % numV]) * 0.08;
-          
-          const currentRadius = b.radius * (1 + noiseFactor);
-          const px = b.x + Math.cos(angle) * currentRadius;
-          const py = b.y + Math.sin(angle) * currentRadius;
-          
-          if (j === 0) ctx.moveTo(px, py);
-          else ctx.lineTo(px, py);
+      const render = () => {
+        main.frame(ctx, performance.now());
+        // Re-render the tooltip only when the hovered item changes, not every frame
+        if (main.hovered !== lastHover) {
+          lastHover = main.hovered;
+          setHoveredTx(lastHover);
         }
-        ctx.closePath();
-
-        // Complex Multi-layered Gradient
-        const gradX = b.x + Math.sin(time * 2 + b.pulseOffset) * (b.radius * 0.3);
-        const gradY = b.y + Math.cos(time * 1.5 + b.pulseOffset) * (b.radius * 0.2);
-        const gradient = ctx.createRadialGradient(gradX, gradY, 0, b.x, b.y, b.radius * 1.3);
-        
-        const coreHue = b.isWhale ? 45 : b.baseHue;
-        const sat = b.isWhale ? '100%' : '90%';
-        const light = b.isWhale ? '75%' : '55%';
-        
-        gradient.addColorStop(0, `hsla(${coreHue}, ${sat}, ${light}, ${b.alpha})`);
-        gradient.addColorStop(0.4, `hsla(${coreHue}, ${sat}, ${light}, ${b.alpha * 0.8})`);
-        gradient.addColorStop(0.7, `hsla(${coreHue}, ${sat}, 40%, ${b.alpha * 0.6})`);
-        gradient.addColorStop(1, `hsla(${coreHue}, ${sat}, 20%, 0)`);
-
-        ctx.fillStyle = gradient;
-        ctx.fill();
-
-        // Subtle glowing rim
-        if (b.isWhale || b.feeRate > 100) {
-          ctx.lineWidth = 2;
-          ctx.strokeStyle = `hsla(${coreHue}, ${sat}, 80%, ${b.alpha * 0.3})`;
-          ctx.stroke();
-        }
-
-        ctx.restore();
-        
-        if (b.life <= 0 || b.y + b.radius * 3 < 0) bubbles.splice(i, 1);
-      }
-      // Only show transaction tooltip when cursor is over the canvas and over a bubble
-      setHoveredTx(isOverCanvasRef.current ? currentHover : null);
-
-      // --- Canvas Overlay UI (Centered Top) ---
-      ctx.save();
-      const centerX = canvas.width / 2;
-      ctx.textAlign = 'center';
-      
-      ctx.font = 'bold 32px Orbitron';
-      const logoGrad = ctx.createLinearGradient(centerX - 200, 0, centerX + 200, 0);
-      logoGrad.addColorStop(0, '#4ade80');
-      logoGrad.addColorStop(0.5, '#facc15');
-      logoGrad.addColorStop(1, '#ef4444');
-      ctx.fillStyle = logoGrad;
-      ctx.shadowBlur = 15;
-      ctx.shadowColor = 'rgba(0,0,0,0.5)';
-      ctx.fillText('MEMPOOL.RADIO', centerX, 60);
-      
-      ctx.font = '13px Share Tech Mono';
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-      ctx.letterSpacing = '5px';
-      ctx.fillText('NATURAL MYSTIC • ONE CHAIN • ONE LOVE', centerX, 85);
-      
-      ctx.restore();
-
-      if (flashAlphaRef.current > 0) {
-        ctx.fillStyle = `rgba(255, 255, 255, ${flashAlphaRef.current * 0.4})`;
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        flashAlphaRef.current -= 0.008;
-      }
+        animationFrameId = requestAnimationFrame(render);
+      };
+      statsTimer = window.setInterval(() => {
+        if (showStatsRef.current) setStats(main.stats);
+      }, STATS_INTERVAL_MS);
+      render();
+    }
 
-      animationFrameId = requestAnimationFrame(render);
-    };
+    const post = (message: RenderWorkerRequest) => worker?.postMessage(message);
 
     const handleResize = () => {
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      if (worker) {
+        post({ type: 'resize', width, height });
+      } else {
+        canvas.width = width;
+        canvas.height = height;
+        main.resize(width, height);
+      }
     };
     const handleMouseMove = (e: MouseEvent) => {
       mouseRef.current = { x: e.clientX, y: e.clientY };
-      isOverCanvasRef.current = e.target === canvas;
+      // Only hover transactions when the cursor is over the canvas itself, not UI on top of it
+      const point = e.target === canvas ? mouseRef.current : null;
+      if (worker) post({ type: 'mouse', point });
+      else main.setMouse(point);
+      const tooltip = tooltipRef.current;
+      if (tooltip) {
+        tooltip.style.left = `${Math.min(window.innerWidth - 300, e.clientX + 25)}px`;
+        tooltip.style.top = `${Math.min(window.innerHeight - 220, e.clientY + 25)}px`;
+      }
     };
     const handleMouseLeave = () => {
-      isOverCanvasRef.current = false;
+      if (worker) post({ type: 'mouse', point: null });
+      else main.setMouse(null);
+    };
+    const handleClick = (e: MouseEvent) => {
+      if (worker) {
+        post({ type: 'click', x: e.clientX, y: e.clientY });
+        return;
+      }
+      const txid = main.hitTest(e.clientX, e.clientY);
+      if (txid) onSelectRef.current?.(txid);
     };
 
     window.addEventListener('resize', handleResize);
     window.addEventListener('mousemove', handleMouseMove);
     canvas.addEventListener('mouseleave', handleMouseLeave);
+    canvas.addEventListener('click', handleClick);
     handleResize();
-    render();
 
     return () => {
       cancelAnimationFrame(animationFrameId);
+      window.clearInterval(statsTimer);
+      if (worker) {
+        worker.terminate();
+        workerRef.current = null;
+      }
+      setHoveredTx(null);
+      canvas.remove();
       window.removeEventListener('resize', handleResize);
       window.removeEventListener('mousemove', handleMouseMove);
       canvas.removeEventListener('mouseleave', handleMouseLeave);
+      canvas.removeEventListener('click', handleClick);
     };
-  }, [blockHeight]);
+  }, [mode]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (worker) {
+      worker.postMessage({ type: 'config', scene, tint, whaleBtc } satisfies RenderWorkerRequest);
+      return;
+    }
+    rendererRef.current?.setScene(scene);
+    rendererRef.current?.setTint(tint);
+    rendererRef.current?.setWhaleBtc(whaleBtc);
+  }, [mode, scene, tint, whaleBtc]);
+
+  useEffect(() => {
+    if (!showStats) setStats(null);
+  }, [showStats]);
 
   return (
     <>
-      <canvas ref={canvasRef} className="fixed inset-0 z-0 block cursor-crosshair" />
+      <div ref={containerRef} className="fixed inset-0 z-0" />
+      {showStats && stats && (
+        <div className="fixed bottom-2 right-2 z-40 pointer-events-none px-2 py-1 rounded bg-black/70 border border-white/10 text-[10px] text-green-400 font-mono">
+          {stats.fps.toFixed(0)} fps · {stats.frameMs.toFixed(1)} ms · {stats.items.toLocaleString()} items · {mode}
+        </div>
+      )}
       {hoveredTx && (
         <div 
+          ref={tooltipRef}
           className="fixed pointer-events-none z-50 p-6 rounded-3xl bg-[#0a120b]/95 backdrop-blur-3xl border border-green-500/20 shadow-[0_0_80px_rgba(34,197,94,0.15)] transition-all duration-200"
           style={{ 
             left: Math.min(window.innerWidth - 300, mouseRef.current.x + 25), 
@@ -259,7 +207,7 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({ blockHeight,
           <div className="flex items-center gap-3 mb-4">
             <div className={`w-4 h-4 rounded-full ${hoveredTx.isWhale ? 'bg-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.5)]' : 'bg-green-400'}`}></div>
             <div className="text-[11px] text-green-400 uppercase tracking-[0.3em] font-black">
-                {hoveredTx.isWhale ? 'LEGENDARY WHALE' : 'ISLAND TRANSFERS'}
+                {hoveredTx.count ? `BURST OF ${hoveredTx.count} TXS` : hoveredTx.isWhale ? 'LEGENDARY WHALE' : 'ISLAND TRANSFERS'}
             </div>
           </div>
           <div className="text-4xl font-bold text-white mb-4 font-mono tracking-tighter">
@@ -271,9 +219,11 @@ const Visualizer = forwardRef<VisualizerHandle, VisualizerProps>(({ blockHeight,
               <div className="text-xl text-pink-500 font-mono">{hoveredTx.feeRate.toFixed(1)} <span className="text-[10px] opacity-70">sat/vB</span></div>
             </div>
             <div>
-              <div className="text-[10px] text-gray-500 uppercase font-black tracking-widest mb-1">USD Value</div>
+              <div className="text-[10px] text-gray-500 uppercase font-black tracking-widest mb-1">
+                {currency === 'SATS' ? 'Sats' : `${currency} Value`}
+              </div>
               <div className="text-xl text-cyan-400 font-mono">
-                ${((hoveredTx.value / 100_000_000) * btcPrice).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                {formatMoney(convertBtc(hoveredTx.value / 100_000_000, currency, prices), currency)}
               </div>
             </div>
           </div>
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { WatchItem, WatchStatus, shortId } from '../services/watchlist';
+
+interface WatchlistPanelProps {
+  entries: { item: WatchItem; status: WatchStatus }[];
+  tipHeight?: number;
+  settledConfirmations: number;
+  onAdd: (value: string) => void;
+  onRemove: (value: string) => void;
+}
+
+const describe = (item: WatchItem, status: WatchStatus, settled: number, tipHeight?: number) => {
+  if (item.kind === 'address') {
+    if (status.blockHeight !== undefined && status.lastTxid) return `confirmed ${shortId(status.lastTxid)}`;
+    return status.lastTxid ? `in mempool ${shortId(status.lastTxid)}` : 'no activity yet';
+  }
+  if (status.blockHeight !== undefined) {
+    const confirmations = tipHeight !== undefined ? Math.max(1, tipHeight - status.blockHeight + 1) : 1;
+    return `${Math.min(confirmations, settled)}/${settled} conf`;
+  }
+  return status.seen ? 'in mempool' : 'waiting';
+};
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ entries, tipHeight, settledConfirmations, onAdd, onRemove }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    onAdd(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="mb-2 w-80 bg-black/70 backdrop-blur-md border border-white/5 px-3 py-2 rounded-xl shadow-2xl">
+      <div className="flex gap-2 mb-2">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          placeholder="Address or txid"
+          className="flex-1 bg-transparent text-[10px] text-white font-mono border border-white/10 rounded px-1"
+        />
+        <button
+          onClick={submit}
+          className="text-[10px] text-yellow-400 uppercase font-black tracking-[0.15em] hover:text-white"
+        >
+          Watch
+        </button>
+      </div>
+      {entries.length === 0 && (
+        <div className="text-[10px] text-gray-500 font-mono">Nothing watched yet.</div>
+      )}
+      {entries.map(({ item, status }) => {
+        const confirmations = item.kind === 'tx' && status.blockHeight !== undefined && tipHeight !== undefined
+          ? Math.max(1, tipHeight - status.blockHeight + 1)
+          : 0;
+        return (
+          <div key={item.value} className="py-1 border-t border-white/5 first:border-t-0">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[10px] text-white font-mono" title={item.value}>
+                <span className="text-gray-500 mr-1">{item.kind === 'tx' ? 'TX' : 'ADDR'}</span>
+                {shortId(item.value)}
+              </span>
+              <button
+                onClick={() => onRemove(item.value)}
+                className="text-[10px] text-gray-500 hover:text-red-400"
+                title="Stop watching"
+              >
+                ×
+              </button>
+            </div>
+            <div className="text-[9px] text-gray-400 font-mono">{describe(item, status, settledConfirmations, tipHeight)}</div>
+            {item.kind === 'tx' && (
+              <div className="mt-0.5 h-1 bg-white/5 rounded">
+                <div
+                  className="h-1 bg-yellow-400 rounded transition-all"
+                  style={{ width: `${Math.min(1, confirmations / settledConfirmations) * 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WatchlistPanel;
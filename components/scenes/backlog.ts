@@ -0,0 +1,133 @@
+import { SceneEnv, SceneItem, SceneTx } from './types';
+
+export interface BacklogTx extends SceneItem {
+  vsize: number;
+  pinnedLabel: string | null;
+}
+
+export type ExitKind = 'mined' | 'dropped';
+
+/** Typical vsize for txs that arrive without one (ghost entries, older captures). */
+const FALLBACK_VSIZE = 250;
+/** Oldest entries are dropped beyond this so missed confirmations can't grow the backlog forever. */
+const MAX_BACKLOG = 8000;
+/** How long removals stay queryable for exit animations. */
+const EXIT_MEMORY_MS = 3000;
+/** If a block arrives without a mined-tx list, assume the best-paying block's worth was mined. */
+const MINED_FALLBACK_MS = 2500;
+
+export const BLOCK_VSIZE = 1_000_000;
+
+/**
+ * The txs the Visualizer has seen that are still unconfirmed, shared by the
+ * scenes that draw the backlog as a whole rather than one arrival at a time.
+ */
+export class Backlog {
+  private txs = new Map<string, BacklogTx>();
+  private exits = new Map<string, { kind: ExitKind; at: number }>();
+  private sortedCache: BacklogTx[] = [];
+  private sortedVersion = -1;
+  private blockPendingAt: number | null = null;
+  private env: SceneEnv;
+  /** Bumped on every change so scenes can re-layout lazily. */
+  version = 0;
+
+  constructor(env: SceneEnv) {
+    this.env = env;
+  }
+
+  get size(): number {
+    return this.txs.size;
+  }
+
+  add(tx: SceneTx) {
+    if (this.txs.has(tx.id)) return;
+    this.txs.set(tx.id, this.toEntry(tx, null));
+    if (this.txs.size > MAX_BACKLOG) {
+      // Maps iterate in insertion order, so the first unpinned key is the oldest
+      for (const [id, entry] of this.txs) {
+        if (entry.pinnedLabel) continue;
+        this.txs.delete(id);
+        break;
+      }
+    }
+    this.version++;
+  }
+
+  remove(txids: Set<string>, kind: ExitKind) {
+    const now = performance.now();
+    txids.forEach(id => {
+      if (!this.txs.delete(id)) return;
+      this.exits.set(id, { kind, at: now });
+    });
+    if (kind === 'mined') this.blockPendingAt = null;
+    this.version++;
+  }
+
+  replace(txid: string, tx: SceneTx) {
+    const previous = this.txs.get(txid);
+    if (!previous) return;
+    this.txs.delete(txid);
+    this.txs.set(tx.id, this.toEntry(tx, previous.pinnedLabel));
+    this.version++;
+  }
+
+  pin(tx: SceneTx, label: string) {
+    const entry = this.txs.get(tx.id);
+    if (entry) entry.pinnedLabel = label;
+    else this.txs.set(tx.id, this.toEntry(tx, label));
+    this.version++;
+  }
+
+  unpin(txid: string) {
+    const entry = this.txs.get(txid);
+    if (entry) entry.pinnedLabel = null;
+  }
+
+  /** A block was found; see `tick` for what happens if its mined txids never arrive. */
+  markBlock() {
+    this.blockPendingAt = performance.now();
+  }
+
+  tick(now: number) {
+    if (this.blockPendingAt !== null && now - this.blockPendingAt > MINED_FALLBACK_MS) {
+      this.blockPendingAt = null;
+      let vsize = 0;
+      const mined = new Set<string>();
+      for (const tx of this.sorted()) {
+        if (vsize + tx.vsize > BLOCK_VSIZE) break;
+        vsize += tx.vsize;
+        mined.add(tx.id);
+      }
+      this.remove(mined, 'mined');
+    }
+    this.exits.forEach((exit, id) => {
+      if (now - exit.at > EXIT_MEMORY_MS) this.exits.delete(id);
+    });
+  }
+
+  /** Why `txid` recently left the backlog, if it did. */
+  exitKind(txid: string): ExitKind | null {
+    return this.exits.get(txid)?.kind ?? null;
+  }
+
+  /** Highest fee rate first, the order a miner would fill blocks in. */
+  sorted(): BacklogTx[] {
+    if (this.sortedVersion !== this.version) {
+      this.sortedCache = Array.from(this.txs.values()).sort((a, b) => b.feeRate - a.feeRate);
+      this.sortedVersion = this.version;
+    }
+    return this.sortedCache;
+  }
+
+  private toEntry(tx: SceneTx, pinnedLabel: string | null): BacklogTx {
+    return {
+      id: tx.id,
+      value: tx.value,
+      feeRate: tx.feeRate,
+      vsize: tx.vsize ?? FALLBACK_VSIZE,
+      isWhale: tx.value / 100_000_000 >= this.env.whaleBtc,
+      pinnedLabel
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { Backlog, BacklogTx, BLOCK_VSIZE, ExitKind } from './backlog';
+import { Ctx2D, Scene, SceneEnv, SceneFrame, SceneItem, getHueFromFeeRate } from './types';
+import { SpatialGrid } from './spatialGrid';
+
+interface Tile extends SceneItem {
+  x: number;
+  y: number;
+  side: number;
+  targetX: number;
+  targetY: number;
+  targetSide: number;
+  alpha: number;
+  color: string;
+  pinnedLabel: string | null;
+  exit: ExitKind | null;
+  /** 0..1; negative values delay the start so a mined block ripples away. */
+  exitProgress: number;
+}
+
+interface BlockSlot {
+  x: number;
+  y: number;
+  count: number;
+  vsize: number;
+  minFee: number;
+  maxFee: number;
+}
+
+const VISIBLE_BLOCKS = 4;
+const BLOCK_GAP = 28;
+const TOP_MARGIN = 130;
+const BOTTOM_MARGIN = 150;
+
+/**
+ * Projected blocks in the style of mempool.space's block view: the backlog,
+ * highest fee first, packed into block-sized squares of tx tiles. The next
+ * block sits on the right and empties when a block is mined.
+ */
+export class BlockTilesScene implements Scene {
+  private tiles = new Map<string, Tile>();
+  private grid = new SpatialGrid<Tile>();
+  private blocks: BlockSlot[] = [];
+  private blockSide = 0;
+  private layoutKey = '';
+  private blockGlow = 0;
+  private backlog: Backlog;
+  private env: SceneEnv;
+
+  constructor(backlog: Backlog, env: SceneEnv) {
+    this.backlog = backlog;
+    this.env = env;
+  }
+
+  get count(): number {
+    return this.tiles.size;
+  }
+
+  flashBlock() {
+    this.blockGlow = 1;
+  }
+
+  hitTest(x: number, y: number): string | null {
+    const tile = this.tileAt(x, y);
+    return tile ? tile.id : null;
+  }
+
+  render(ctx: Ctx2D, { time, mouse }: SceneFrame): SceneItem | null {
+    const key = `${this.backlog.version}:${this.env.width}x${this.env.height}`;
+    if (key !== this.layoutKey) {
+      this.layoutKey = key;
+      this.layout();
+    }
+
+    this.drawBlocks(ctx);
+    this.grid.clear();
+
+    ctx.save();
+    this.tiles.forEach((tile, id) => {
+      if (tile.exit) {
+        tile.exitProgress += tile.exit === 'mined' ? 0.025 : 0.04;
+        const p = Math.max(0, tile.exitProgress);
+        if (tile.exit === 'mined') {
+          tile.x += p * 6;
+          tile.y -= p * 4;
+        }
+        tile.alpha = Math.max(0, 1 - p);
+        if (tile.exitProgress >= 1) {
+          this.tiles.delete(id);
+          return;
+        }
+      } else {
+        tile.x += (tile.targetX - tile.x) * 0.12;
+        tile.y += (tile.targetY - tile.y) * 0.12;
+        tile.side += (tile.targetSide - tile.side) * 0.12;
+        tile.alpha = Math.min(1, tile.alpha + 0.05);
+        this.grid.insert(tile, tile.x, tile.y, tile.side, tile.side);
+      }
+      ctx.globalAlpha = tile.alpha;
+      ctx.fillStyle = tile.color;
+      ctx.fillRect(tile.x, tile.y, Math.max(1, tile.side - 1), Math.max(1, tile.side - 1));
+    });
+
+    // Pinned watchlist tiles get a marching outline and their label above
+    this.tiles.forEach(tile => {
+      if (!tile.pinnedLabel || tile.exit) return;
+      ctx.globalAlpha = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.lineDashOffset = -time * 20;
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = `rgba(250, 204, 21, ${0.6 + Math.sin(time * 4) * 0.3})`;
+      ctx.strokeRect(tile.x - 3, tile.y - 3, tile.side + 5, tile.side + 5);
+      ctx.setLineDash([]);
+      ctx.font = '12px Share Tech Mono';
+      ctx.textAlign = 'center';
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.9)';
+      ctx.fillText(tile.pinnedLabel, tile.x + tile.side / 2, tile.y - 8);
+    });
+    ctx.restore();
+
+    this.blockGlow = Math.max(0, this.blockGlow - 0.01);
+    return this.tileAt(mouse.x, mouse.y);
+  }
+
+  private tileAt(x: number, y: number): Tile | null {
+    const candidates = this.grid.query(x, y);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const tile = candidates[i];
+      if (x >= tile.x && x < tile.x + tile.side && y >= tile.y && y < tile.y + tile.side) return tile;
+    }
+    return null;
+  }
+
+  private drawBlocks(ctx: Ctx2D) {
+    const side = this.blockSide;
+    ctx.save();
+    this.blocks.forEach((block, i) => {
+      const glow = i === 0 ? this.blockGlow : 0;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.03)';
+      ctx.fillRect(block.x, block.y, side, side);
+      ctx.lineWidth = 1 + glow * 3;
+      ctx.strokeStyle = `rgba(${glow > 0 ? '250, 204, 21' : '74, 222, 128'}, ${0.25 + glow * 0.6})`;
+      ctx.strokeRect(block.x - 0.5, block.y - 0.5, side + 1, side + 1);
+
+      ctx.textAlign = 'center';
+      ctx.font = 'bold 12px Share Tech Mono';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.fillText(i === 0 ? 'NEXT BLOCK' : `IN ~${i + 1} BLOCKS`, block.x + side / 2, block.y + side + 20);
+      ctx.font = '11px Share Tech Mono';
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+      const fees = block.count > 0 ? `${block.minFee.toFixed(1)}–${block.maxFee.toFixed(1)} sat/vB` : 'empty';
+      ctx.fillText(fees, block.x + side / 2, block.y + side + 36);
+      ctx.fillText(
+        `${block.count.toLocaleString()} txs · ${(block.vsize / 1_000_000).toFixed(2)} MvB`,
+        block.x + side / 2,
+        block.y + side + 50
+      );
+    });
+    ctx.restore();
+  }
+
+  private layout() {
+    const { width, height } = this.env;
+    const available = Math.max(100, height - TOP_MARGIN - BOTTOM_MARGIN);
+    const side = Math.max(60, Math.min(available, (width - 80 - BLOCK_GAP * (VISIBLE_BLOCKS - 1)) / VISIBLE_BLOCKS));
+    this.blockSide = side;
+    const rowWidth = side * VISIBLE_BLOCKS + BLOCK_GAP * (VISIBLE_BLOCKS - 1);
+    const left = (width - rowWidth) / 2;
+    const top = TOP_MARGIN + (available - side) / 2;
+    // Next block on the right, nearest to where mined blocks would go
+    this.blocks = Array.from({ length: VISIBLE_BLOCKS }, (_, i) => ({
+      x: left + (VISIBLE_BLOCKS - 1 - i) * (side + BLOCK_GAP),
+      y: top,
+      count: 0,
+      vsize: 0,
+      minFee: Infinity,
+      maxFee: 0
+    }));
+
+    const placed = new Set<string>();
+    let blockIndex = 0;
+    let cursorX = 0;
+    let shelfY = 0;
+    let shelfHeight = 0;
+
+    for (const tx of this.backlog.sorted()) {
+      const tileSide = Math.max(2, side * Math.sqrt(tx.vsize / BLOCK_VSIZE));
+      let block = this.blocks[blockIndex];
+      if (cursorX + tileSide > side) {
+        shelfY += shelfHeight;
+        cursorX = 0;
+        shelfHeight = 0;
+      }
+      if (shelfY + tileSide > side || block.vsize + tx.vsize > BLOCK_VSIZE) {
+        blockIndex++;
+        if (blockIndex >= VISIBLE_BLOCKS) break;
+        block = this.blocks[blockIndex];
+        cursorX = 0;
+        shelfY = 0;
+        shelfHeight = 0;
+      }
+
+      // Blocks fill from the bottom up
+      this.place(tx, block.x + cursorX, block.y + side - shelfY - tileSide, tileSide);
+      placed.add(tx.id);
+      block.count++;
+      block.vsize += tx.vsize;
+      block.minFee = Math.min(block.minFee, tx.feeRate);
+      block.maxFee = Math.max(block.maxFee, tx.feeRate);
+      cursorX += tileSide;
+      shelfHeight = Math.max(shelfHeight, tileSide);
+    }
+
+    this.tiles.forEach(tile => {
+      if (tile.exit || placed.has(tile.id)) return;
+      tile.exit = this.backlog.exitKind(tile.id) ?? 'dropped';
+      tile.exitProgress = tile.exit === 'mined' ? -Math.random() * 0.5 : 0;
+    });
+  }
+
+  private place(tx: BacklogTx, x: number, y: number, side: number) {
+    const tile = this.tiles.get(tx.id);
+    if (tile && !tile.exit) {
+      tile.targetX = x;
+      tile.targetY = y;
+      tile.targetSide = side;
+      tile.pinnedLabel = tx.pinnedLabel;
+      return;
+    }
+    const hue = getHueFromFeeRate(tx.feeRate);
+    this.tiles.set(tx.id, {
+      id: tx.id,
+      value: tx.value,
+      feeRate: tx.feeRate,
+      isWhale: tx.isWhale,
+      // New tiles drop in from above their slot
+      x,
+      y: y - 40,
+      side,
+      targetX: x,
+      targetY: y,
+      targetSide: side,
+      alpha: 0,
+      color: tx.isWhale ? 'hsl(45, 100%, 65%)' : `hsl(${hue}, 85%, 55%)`,
+      pinnedLabel: tx.pinnedLabel,
+      exit: null,
+      exitProgress: 0
+    });
+  }
+}
@@ -0,0 +1,337 @@
+import { Ctx2D, Scene, SceneCluster, SceneEnv, SceneFrame, SceneItem, SceneTx, getHueFromFeeRate } from './types';
+import { SpatialGrid } from './spatialGrid';
+
+interface Bubble extends SceneItem {
+  x: number;
+  y: number;
+  radius: number;
+  vx: number;
+  vy: number;
+  baseHue: number;
+  alpha: number;
+  life: number;
+  noiseOffsets: number[]; // Unique offsets for each vertex
+  pulseOffset: number;
+  // Radius/hue ease towards these, so RBF replacements morph instead of jumping
+  targetRadius: number;
+  targetHue: number;
+  morphGlow: number;
+  // Confirmed bubbles pop, removed ones dissolve; progress runs 0..1 (negative = staggered start)
+  exit: 'pop' | 'fade' | null;
+  exitProgress: number;
+  /** Watchlist label; pinned bubbles stop short of the top and never age out. */
+  pinnedLabel: string | null;
+  /** Txids of a cluster bubble; it pops once any of them is mined and sheds those dropped unmined. */
+  members: Set<string> | null;
+}
+
+const getRadiusFromValue = (value: number) =>
+  Math.max(20, Math.min(180, Math.sqrt((value / 100_000_000) * 30000) + 30));
+
+/** The original scene: organic fee-coloured blobs drifting up from the bottom. */
+export class BubbleScene implements Scene {
+  private bubbles: Bubble[] = [];
+  private grid = new SpatialGrid<Bubble>();
+  /** Unit-size gradients per hue, tied to the context that created them. */
+  private gradients = new Map<string, CanvasGradient>();
+  private gradientCtx: Ctx2D | null = null;
+  private env: SceneEnv;
+
+  constructor(env: SceneEnv) {
+    this.env = env;
+  }
+
+  get count(): number {
+    return this.bubbles.length;
+  }
+
+  addTransaction(tx: SceneTx) {
+    // A watched tx is pinned as soon as it's seen, usually before its turn to play
+    const pinned = this.bubbles.find(b => b.id === tx.id && !b.exit);
+    if (pinned) pinned.morphGlow = 1;
+    else this.spawn(tx);
+  }
+
+  addCluster(cluster: SceneCluster) {
+    let value = 0;
+    let fees = 0;
+    let vsize = 0;
+    cluster.txs.forEach(tx => {
+      value += tx.value;
+      fees += tx.feeRate * (tx.vsize ?? 1);
+      vsize += tx.vsize ?? 1;
+    });
+    const b = this.spawn({ id: cluster.id, value, feeRate: fees / vsize });
+    b.count = cluster.txs.length;
+    b.members = new Set(cluster.txs.map(tx => tx.id));
+    // A cluster of dust would otherwise be the smallest bubble on screen
+    b.radius = b.targetRadius = Math.max(b.radius, Math.min(70, 26 + Math.sqrt(cluster.txs.length) * 5));
+  }
+
+  confirmTransactions(txids: Set<string>) {
+    this.bubbles.forEach(b => {
+      if (b.exit || !(txids.has(b.id) || this.hasMember(b, txids))) return;
+      b.exit = 'pop';
+      // Stagger so a block's worth of bubbles ripples away rather than vanishing at once
+      b.exitProgress = -Math.random() * 0.6;
+    });
+  }
+
+  removeTransactions(txids: Set<string>) {
+    this.bubbles.forEach(b => {
+      if (b.exit) return;
+      if (b.members) {
+        // A cluster sheds the dropped txs and only dissolves once none are left
+        if (!this.hasMember(b, txids)) return;
+        txids.forEach(txid => b.members!.delete(txid));
+        b.count = b.members.size;
+        if (b.members.size > 0) return;
+      } else if (!txids.has(b.id)) {
+        return;
+      }
+      b.exit = 'fade';
+      b.exitProgress = 0;
+    });
+  }
+
+  replaceTransaction(txid: string, tx: SceneTx) {
+    const b = this.bubbles.find(bubble => bubble.id === txid && !bubble.exit);
+    if (!b) return;
+    b.id = tx.id;
+    b.value = tx.value;
+    b.feeRate = tx.feeRate;
+    b.isWhale = tx.value / 100_000_000 >= this.env.whaleBtc;
+    b.targetRadius = getRadiusFromValue(tx.value);
+    b.targetHue = getHueFromFeeRate(tx.feeRate);
+    b.morphGlow = 1;
+  }
+
+  pinTransaction(tx: SceneTx, label: string) {
+    const b = this.bubbles.find(bubble => bubble.id === tx.id && !bubble.exit) ?? this.spawn(tx);
+    b.pinnedLabel = label;
+    b.life = 1.0;
+    b.morphGlow = 1;
+  }
+
+  unpinTransaction(txid: string) {
+    this.bubbles.forEach(b => {
+      if (b.id === txid) b.pinnedLabel = null;
+    });
+  }
+
+  hitTest(x: number, y: number): string | null {
+    const b = this.bubbleAt(x, y);
+    // Cluster ids aren't txids, so there is nothing to inspect
+    return b && !b.members ? b.id : null;
+  }
+
+  render(ctx: Ctx2D, { time, mouse }: SceneFrame): SceneItem | null {
+    const { bubbles, grid } = this;
+    const { width, height } = this.env;
+    const sceneAlpha = ctx.globalAlpha;
+    grid.clear();
+
+    for (let i = bubbles.length - 1; i >= 0; i--) {
+      const b = bubbles[i];
+      // Drift movement
+      b.x += b.vx + Math.sin(time * 0.5 + b.pulseOffset) * 0.4;
+      b.y += b.vy;
+      if (b.pinnedLabel) {
+        // Settle in the upper third and hold there
+        if (b.y < height * 0.35) b.vy *= 0.95;
+        b.x = Math.max(b.radius, Math.min(width - b.radius, b.x));
+      } else {
+        b.life -= 0.0007;
+      }
+      b.radius += (b.targetRadius - b.radius) * 0.06;
+      b.baseHue += (b.targetHue - b.baseHue) * 0.06;
+      b.morphGlow = Math.max(0, b.morphGlow - 0.015);
+
+      let exitFade = 1;
+      let exitScale = 1;
+      if (b.exit) {
+        b.exitProgress += b.exit === 'pop' ? 0.04 : 0.015;
+        const p = Math.max(0, Math.min(1, b.exitProgress));
+        exitFade = 1 - p;
+        exitScale = b.exit === 'pop' ? 1 + p * 0.6 : 1 - p * 0.5;
+      }
+      b.alpha = Math.min(0.9, b.life * 3) * exitFade;
+      const radius = b.radius * exitScale;
+
+      if (!b.exit) grid.insert(b, b.x - radius, b.y - radius, radius * 2, radius * 2);
+
+      ctx.save();
+      ctx.globalCompositeOperation = 'screen';
+      ctx.beginPath();
+
+      // Render organic, asymmetrical blob shape
+      const numV = b.noiseOffsets.length;
+      for (let j = 0; j <= numV; j++) {
+        const idx = j % numV;
+        const angle = (j / numV) * Math.PI * 2;
+
+        // Combine multiple noise components for fluid asymmetrical wobbling
+        const noiseFactor =
+          Math.sin(time * 1.5 + b.noiseOffsets[idx]) * 0.12 +
+          Math.cos(time * 0.8 + b.noiseOffsets[(idx + 3) % numV]) * 0.08;
+
+        const currentRadius = radius * (1 + noiseFactor);
+        const px = b.x + Math.cos(angle) * currentRadius;
+        const py = b.y + Math.sin(angle) * currentRadius;
+
+        if (j === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+      }
+      ctx.closePath();
+
+      // Multi-layered gradient with a drifting highlight. The path is already in canvas
+      // coordinates, so translate/scale only move the cached unit gradient, not the shape.
+      const gradX = b.x + Math.sin(time * 2 + b.pulseOffset) * (radius * 0.3);
+      const gradY = b.y + Math.cos(time * 1.5 + b.pulseOffset) * (radius * 0.2);
+      const coreHue = b.isWhale ? 45 : Math.round(b.baseHue);
+      const sat = b.isWhale ? '100%' : '90%';
+
+      ctx.save();
+      ctx.translate(gradX, gradY);
+      ctx.scale(radius, radius);
+      ctx.globalAlpha = sceneAlpha * b.alpha;
+      ctx.fillStyle = this.gradient(ctx, coreHue, b.isWhale);
+      ctx.fill();
+      ctx.restore();
+
+      // Subtle glowing rim
+      if (b.isWhale || b.feeRate > 100) {
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = `hsla(${coreHue}, ${sat}, 80%, ${b.alpha * 0.3})`;
+        ctx.stroke();
+      }
+
+      // Confirmation shockwave ring, and a bright halo while morphing into a replacement
+      if (b.exit === 'pop' && b.exitProgress > 0) {
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, radius * (1 + b.exitProgress * 0.5), 0, Math.PI * 2);
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = `hsla(${coreHue}, 100%, 85%, ${exitFade * 0.8})`;
+        ctx.stroke();
+      }
+      if (b.pinnedLabel) {
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, radius * 1.3, 0, Math.PI * 2);
+        ctx.setLineDash([6, 6]);
+        ctx.lineDashOffset = -time * 20;
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = `rgba(250, 204, 21, ${0.5 + Math.sin(time * 4) * 0.3})`;
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.font = '12px Share Tech Mono';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'rgba(250, 204, 21, 0.9)';
+        ctx.fillText(b.pinnedLabel, b.x, b.y - radius * 1.3 - 8);
+      }
+      if (b.morphGlow > 0) {
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, radius * 1.15, 0, Math.PI * 2);
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = `rgba(255, 255, 255, ${b.morphGlow * 0.7})`;
+        ctx.stroke();
+      }
+      // Cluster bubbles: satellites orbiting the blob and the merged count in its centre
+      if (b.count) {
+        const dots = Math.min(8, b.count);
+        ctx.fillStyle = `hsla(${coreHue}, ${sat}, 75%, ${b.alpha * 0.8})`;
+        for (let k = 0; k < dots; k++) {
+          const angle = time * 0.8 + b.pulseOffset + (k / dots) * Math.PI * 2;
+          ctx.beginPath();
+          ctx.arc(b.x + Math.cos(angle) * radius * 1.25, b.y + Math.sin(angle) * radius * 1.25, 3, 0, Math.PI * 2);
+          ctx.fill();
+        }
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.font = '11px Share Tech Mono';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = `rgba(255, 255, 255, ${b.alpha * 0.8})`;
+        ctx.fillText(`×${b.count}`, b.x, b.y + 4);
+      }
+
+      ctx.restore();
+
+      const exited = b.exit !== null && b.exitProgress >= 1;
+      if (exited || b.life <= 0 || b.y + b.radius * 3 < 0) bubbles.splice(i, 1);
+    }
+    return this.bubbleAt(mouse.x, mouse.y);
+  }
+
+  private hasMember(b: Bubble, txids: Set<string>) {
+    if (!b.members) return false;
+    for (const txid of b.members) if (txids.has(txid)) return true;
+    return false;
+  }
+
+  /** Bubble drawn on top at a point, from the grid built during the last frame. */
+  private bubbleAt(x: number, y: number): Bubble | null {
+    const candidates = this.grid.query(x, y);
+    // Later inserts are drawn later, so scan backwards for the topmost hit
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const b = candidates[i];
+      const dx = b.x - x;
+      const dy = b.y - y;
+      if (dx * dx + dy * dy < b.radius * b.radius) return b;
+    }
+    return null;
+  }
+
+  private gradient(ctx: Ctx2D, hue: number, isWhale: boolean): CanvasGradient {
+    if (ctx !== this.gradientCtx) {
+      this.gradients.clear();
+      this.gradientCtx = ctx;
+    }
+    const key = `${hue}:${isWhale}`;
+    let gradient = this.gradients.get(key);
+    if (!gradient) {
+      const sat = isWhale ? '100%' : '90%';
+      const light = isWhale ? '75%' : '55%';
+      gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, 1.3);
+      gradient.addColorStop(0, `hsla(${hue}, ${sat}, ${light}, 1)`);
+      gradient.addColorStop(0.4, `hsla(${hue}, ${sat}, ${light}, 0.8)`);
+      gradient.addColorStop(0.7, `hsla(${hue}, ${sat}, 40%, 0.6)`);
+      gradient.addColorStop(1, `hsla(${hue}, ${sat}, 20%, 0)`);
+      this.gradients.set(key, gradient);
+    }
+    return gradient;
+  }
+
+  private spawn(tx: SceneTx): Bubble {
+    const btc = tx.value / 100_000_000;
+    const radius = getRadiusFromValue(tx.value);
+    const isWhale = btc >= this.env.whaleBtc;
+
+    const numVertices = 14;
+    const noiseOffsets = Array.from({ length: numVertices }, () => Math.random() * Math.PI * 2);
+
+    const bubble: Bubble = {
+      id: tx.id || Math.random().toString(),
+      x: Math.random() * this.env.width,
+      y: this.env.height + radius * 2,
+      radius,
+      vx: (Math.random() - 0.5) * 0.7,
+      vy: isWhale ? -(Math.random() * 0.2 + 0.1) : -(Math.random() * 1.5 + 0.4),
+      baseHue: getHueFromFeeRate(tx.feeRate),
+      alpha: 0.85,
+      life: 1.0,
+      value: tx.value,
+      feeRate: tx.feeRate,
+      noiseOffsets,
+      isWhale,
+      pulseOffset: Math.random() * 1000,
+      targetRadius: radius,
+      targetHue: getHueFromFeeRate(tx.feeRate),
+      morphGlow: 0,
+      exit: null,
+      exitProgress: 0,
+      pinnedLabel: null,
+      members: null
+    };
+    this.bubbles.push(bubble);
+    return bubble;
+  }
+}
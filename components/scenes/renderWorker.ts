@@ -0,0 +1,80 @@
+import { RendererStats, SceneRenderer, Tint, applySceneEvent } from './renderer';
+import { SceneEvent, SceneId, SceneItem } from './types';
+
+/** Page → worker. */
+export type RenderWorkerRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; width: number; height: number; whaleBtc: number; scene: SceneId; tint: Tint }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'config'; scene: SceneId; tint: Tint; whaleBtc: number }
+  | { type: 'mouse'; point: { x: number; y: number } | null }
+  | { type: 'click'; x: number; y: number }
+  | { type: 'event'; event: SceneEvent };
+
+/** Worker → page. */
+export type RenderWorkerReply =
+  | { type: 'hover'; item: SceneItem | null }
+  | { type: 'select'; txid: string }
+  | { type: 'stats'; stats: RendererStats };
+
+const STATS_INTERVAL_MS = 500;
+
+// Typed against the DOM lib; postMessage, requestAnimationFrame and message events look the same in a dedicated worker
+const reply = (message: RenderWorkerReply) => self.postMessage(message);
+
+let renderer: SceneRenderer | null = null;
+let canvas: OffscreenCanvas | null = null;
+let lastHover: SceneItem | null = null;
+let lastStatsAt = 0;
+
+const loop = () => {
+  const ctx = canvas?.getContext('2d');
+  if (!renderer || !ctx) return;
+  const now = performance.now();
+  renderer.frame(ctx, now);
+  // The page only re-renders its tooltip when the hovered item actually changes
+  if (renderer.hovered !== lastHover) {
+    lastHover = renderer.hovered;
+    reply({ type: 'hover', item: lastHover });
+  }
+  if (now - lastStatsAt > STATS_INTERVAL_MS) {
+    lastStatsAt = now;
+    reply({ type: 'stats', stats: renderer.stats });
+  }
+  requestAnimationFrame(loop);
+};
+
+self.addEventListener('message', (e: MessageEvent<RenderWorkerRequest>) => {
+  const message = e.data;
+  if (message.type === 'init') {
+    canvas = message.canvas;
+    canvas.width = message.width;
+    canvas.height = message.height;
+    renderer = new SceneRenderer(message);
+    loop();
+    return;
+  }
+  if (!renderer || !canvas) return;
+  switch (message.type) {
+    case 'resize':
+      canvas.width = message.width;
+      canvas.height = message.height;
+      renderer.resize(message.width, message.height);
+      break;
+    case 'config':
+      renderer.setScene(message.scene);
+      renderer.setTint(message.tint);
+      renderer.setWhaleBtc(message.whaleBtc);
+      break;
+    case 'mouse':
+      renderer.setMouse(message.point);
+      break;
+    case 'click': {
+      const txid = renderer.hitTest(message.x, message.y);
+      if (txid) reply({ type: 'select', txid });
+      break;
+    }
+    case 'event':
+      applySceneEvent(renderer, message.event);
+      break;
+  }
+});
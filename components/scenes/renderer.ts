@@ -0,0 +1,244 @@
+import { Backlog } from './backlog';
+import { BubbleScene } from './bubbleScene';
+import { BlockTilesScene } from './blockTilesScene';
+import { TreemapScene } from './treemapScene';
+import { Ctx2D, Scene, SceneCluster, SceneEnv, SceneEvent, SceneEvents, SceneId, SceneItem, SceneTx } from './types';
+
+export type Tint = [number, number, number] | null;
+
+export type RendererMode = 'main' | 'worker';
+
+export interface RendererStats {
+  fps: number;
+  /** Time spent drawing the last frames, excluding idle time between them. */
+  frameMs: number;
+  /** Items drawn by the active scene. */
+  items: number;
+}
+
+/** Frames a cross-fade between scenes takes. */
+const TRANSITION_FRAMES = 40;
+/** Mouse position meaning "not over the canvas". */
+const OFF_CANVAS = -1000;
+
+/** Whether this browser can hand a page canvas to a worker. */
+export const supportsWorkerRenderer = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+/** Call the `SceneEvents` method a posted event names. */
+export const applySceneEvent = (target: SceneEvents, event: SceneEvent) => {
+  (target[event.method] as (...args: unknown[]) => void).apply(target, event.args);
+};
+
+/**
+ * Everything the visualizer draws, independent of where the canvas lives:
+ * backdrop, scenes with their cross-fade, logo and block flash. The page
+ * drives it on the main thread, or `renderWorker` drives it off an
+ * OffscreenCanvas.
+ */
+export class SceneRenderer implements SceneEvents {
+  readonly env: SceneEnv;
+  private backlog: Backlog;
+  private scenes: Record<SceneId, Scene>;
+  private active: SceneId;
+  // The outgoing scene keeps drawing, fading out, until the transition completes
+  private outgoing: { id: SceneId; frames: number } | null = null;
+  private tint: Tint;
+  private mouse = { x: OFF_CANVAS, y: OFF_CANVAS };
+  private time = 0;
+  private flashAlpha = 0;
+  private avgFeeRate = 1;
+  private lastFrameAt = 0;
+  private fps = 0;
+  private frameMs = 0;
+  /** Item under the mouse as of the last frame. */
+  hovered: SceneItem | null = null;
+
+  constructor(options: { width: number; height: number; whaleBtc: number; scene: SceneId; tint: Tint }) {
+    this.env = { width: options.width, height: options.height, whaleBtc: options.whaleBtc };
+    this.backlog = new Backlog(this.env);
+    this.scenes = {
+      bubbles: new BubbleScene(this.env),
+      blocks: new BlockTilesScene(this.backlog, this.env),
+      treemap: new TreemapScene(this.backlog, this.env)
+    };
+    this.active = options.scene;
+    this.tint = options.tint;
+  }
+
+  get stats(): RendererStats {
+    return { fps: this.fps, frameMs: this.frameMs, items: this.scenes[this.active].count };
+  }
+
+  setScene(id: SceneId) {
+    if (id === this.active) return;
+    this.outgoing = { id: this.active, frames: TRANSITION_FRAMES };
+    this.active = id;
+  }
+
+  setTint(tint: Tint) {
+    this.tint = tint;
+  }
+
+  setWhaleBtc(whaleBtc: number) {
+    this.env.whaleBtc = whaleBtc;
+  }
+
+  resize(width: number, height: number) {
+    this.env.width = width;
+    this.env.height = height;
+  }
+
+  /** Pass `null` when the pointer is off the canvas (or over UI on top of it). */
+  setMouse(point: { x: number; y: number } | null) {
+    this.mouse = point ?? { x: OFF_CANVAS, y: OFF_CANVAS };
+  }
+
+  hitTest(x: number, y: number): string | null {
+    return this.scenes[this.active].hitTest(x, y);
+  }
+
+  addTransaction(tx: SceneTx) {
+    this.avgFeeRate = this.avgFeeRate * 0.98 + tx.feeRate * 0.02;
+    this.backlog.add(tx);
+    // Only scenes on screen take new arrivals, so hidden ones don't pile up
+    this.scenes[this.active].addTransaction?.(tx);
+    if (this.outgoing) this.scenes[this.outgoing.id].addTransaction?.(tx);
+  }
+
+  addCluster(cluster: SceneCluster) {
+    cluster.txs.forEach(tx => {
+      this.avgFeeRate = this.avgFeeRate * 0.98 + tx.feeRate * 0.02;
+      this.backlog.add(tx);
+    });
+    this.scenes[this.active].addCluster?.(cluster);
+    if (this.outgoing) this.scenes[this.outgoing.id].addCluster?.(cluster);
+  }
+
+  flashBlock() {
+    this.flashAlpha = 1.0;
+    this.backlog.markBlock();
+    this.all().forEach(s => s.flashBlock?.());
+  }
+
+  confirmTransactions(txids: string[]) {
+    const ids = new Set<string>(txids);
+    this.backlog.remove(ids, 'mined');
+    this.all().forEach(s => s.confirmTransactions?.(ids));
+  }
+
+  removeTransactions(txids: string[]) {
+    const ids = new Set<string>(txids);
+    this.backlog.remove(ids, 'dropped');
+    this.all().forEach(s => s.removeTransactions?.(ids));
+  }
+
+  replaceTransaction(txid: string, tx: SceneTx) {
+    this.backlog.replace(txid, tx);
+    this.all().forEach(s => s.replaceTransaction?.(txid, tx));
+  }
+
+  pinTransaction(tx: SceneTx, label: string) {
+    this.backlog.pin(tx, label);
+    this.all().forEach(s => s.pinTransaction?.(tx, label));
+  }
+
+  unpinTransaction(txid: string) {
+    this.backlog.unpin(txid);
+    this.all().forEach(s => s.unpinTransaction?.(txid));
+  }
+
+  /** Draw one frame; `now` is a `performance.now()` timestamp. */
+  frame(ctx: Ctx2D, now: number) {
+    const { width, height } = this.env;
+    this.time += 0.015;
+    const time = this.time;
+
+    const congestionIntensity = Math.min(1, this.avgFeeRate / 300);
+    ctx.fillStyle = `rgba(${6 + congestionIntensity * 35}, ${10 + congestionIntensity * 5}, ${20}, 1)`;
+    ctx.fillRect(0, 0, width, height);
+
+    // Non-mainnet networks get a tinted wash and grid so they're never mistaken for mainnet
+    const tint = this.tint;
+    if (tint) {
+      ctx.fillStyle = `rgba(${tint[0]}, ${tint[1]}, ${tint[2]}, 0.12)`;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // --- Cyber Grid ---
+    const gridRgb = tint ? tint.join(', ') : '34, 197, 94';
+    ctx.strokeStyle = `rgba(${gridRgb}, ${(tint ? 0.08 : 0.03) + congestionIntensity * 0.07})`;
+    ctx.lineWidth = 1;
+    const gridSize = 120;
+    const gridOffset = (time * 15) % gridSize;
+    ctx.beginPath();
+    for (let x = 0; x <= width; x += gridSize) {
+      ctx.moveTo(x, 0); ctx.lineTo(x, height);
+    }
+    for (let y = gridOffset; y <= height; y += gridSize) {
+      ctx.moveTo(0, y); ctx.lineTo(width, y);
+    }
+    ctx.stroke();
+
+    // --- Scenes ---
+    this.backlog.tick(now);
+    const frame = { time, mouse: this.mouse };
+    const outgoing = this.outgoing;
+    if (outgoing) {
+      ctx.save();
+      ctx.globalAlpha = outgoing.frames / TRANSITION_FRAMES;
+      this.scenes[outgoing.id].render(ctx, frame);
+      ctx.restore();
+      outgoing.frames--;
+      if (outgoing.frames <= 0) this.outgoing = null;
+    }
+    ctx.save();
+    ctx.globalAlpha = outgoing ? 1 - outgoing.frames / TRANSITION_FRAMES : 1;
+    this.hovered = this.scenes[this.active].render(ctx, frame);
+    ctx.restore();
+
+    // --- Canvas Overlay UI (Centered Top) ---
+    ctx.save();
+    const centerX = width / 2;
+    ctx.textAlign = 'center';
+
+    ctx.font = 'bold 32px Orbitron';
+    const logoGrad = ctx.createLinearGradient(centerX - 200, 0, centerX + 200, 0);
+    logoGrad.addColorStop(0, '#4ade80');
+    logoGrad.addColorStop(0.5, '#facc15');
+    logoGrad.addColorStop(1, '#ef4444');
+    ctx.fillStyle = logoGrad;
+    ctx.shadowBlur = 15;
+    ctx.shadowColor = 'rgba(0,0,0,0.5)';
+    ctx.fillText('MEMPOOL.RADIO', centerX, 60);
+
+    ctx.font = '13px Share Tech Mono';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.letterSpacing = '5px';
+    ctx.fillText('NATURAL MYSTIC • ONE CHAIN • ONE LOVE', centerX, 85);
+
+    ctx.restore();
+
+    if (this.flashAlpha > 0) {
+      ctx.fillStyle = `rgba(255, 255, 255, ${this.flashAlpha * 0.4})`;
+      ctx.fillRect(0, 0, width, height);
+      this.flashAlpha -= 0.008;
+    }
+
+    // Smoothed so the overlay reads steadily
+    const drawn = performance.now() - now;
+    this.frameMs = this.frameMs * 0.9 + drawn * 0.1;
+    if (this.lastFrameAt > 0) {
+      const instant = 1000 / Math.max(1, now - this.lastFrameAt);
+      this.fps = this.fps ? this.fps * 0.9 + instant * 0.1 : instant;
+    }
+    this.lastFrameAt = now;
+  }
+
+  private all(): Scene[] {
+    return Object.values(this.scenes);
+  }
+}
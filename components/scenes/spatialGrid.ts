@@ -0,0 +1,43 @@
+/**
+ * Uniform grid over the canvas for point queries. Scenes rebuild it while they
+ * draw, so hover and click lookups only scan the items in one cell.
+ */
+export class SpatialGrid<T> {
+  private cells = new Map<number, T[]>();
+  private cellSize: number;
+
+  constructor(cellSize = 96) {
+    this.cellSize = cellSize;
+  }
+
+  clear() {
+    this.cells.clear();
+  }
+
+  /** Index `item` under every cell its bounding box touches. */
+  insert(item: T, x: number, y: number, w: number, h: number) {
+    const size = this.cellSize;
+    const x0 = Math.floor(x / size);
+    const x1 = Math.floor((x + w) / size);
+    const y0 = Math.floor(y / size);
+    const y1 = Math.floor((y + h) / size);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = this.key(cx, cy);
+        const bucket = this.cells.get(key);
+        if (bucket) bucket.push(item);
+        else this.cells.set(key, [item]);
+      }
+    }
+  }
+
+  /** Candidates near a point, in insertion order; callers do the exact shape test. */
+  query(x: number, y: number): T[] {
+    return this.cells.get(this.key(Math.floor(x / this.cellSize), Math.floor(y / this.cellSize))) ?? [];
+  }
+
+  private key(cx: number, cy: number) {
+    // Offset so slightly off-canvas cells (negative coordinates) get distinct keys too
+    return (cx + 1024) * 4096 + (cy + 1024);
+  }
+}
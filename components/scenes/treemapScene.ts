@@ -0,0 +1,328 @@
+import { FEE_BUCKETS } from '../../services/feeMarket';
+import { Backlog, BacklogTx, ExitKind } from './backlog';
+import { Ctx2D, Scene, SceneEnv, SceneFrame, SceneItem, getHueFromFeeRate } from './types';
+import { SpatialGrid } from './spatialGrid';
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface Cell extends SceneItem {
+  rect: Rect;
+  target: Rect;
+  alpha: number;
+  color: string;
+  pinnedLabel: string | null;
+  /** Number of small txs merged into this cell; 0 for a single tx. */
+  merged: number;
+  exit: ExitKind | null;
+  exitProgress: number;
+}
+
+interface Band {
+  rect: Rect;
+  label: string;
+  hue: number;
+}
+
+/** Individually drawn txs per fee band; the rest share one "smaller txs" cell. */
+const MAX_CELLS_PER_BAND = 60;
+/** Reflowing the whole map is visually loud, so at most this often. */
+const RELAYOUT_MS = 500;
+const TOP_MARGIN = 120;
+const BOTTOM_MARGIN = 140;
+const SIDE_MARGIN = 40;
+const BAND_HEADER = 16;
+
+/** Squarified treemap layout: rectangles with areas proportional to `weight`, kept close to square. */
+function squarify<T>(items: { weight: number; item: T }[], bounds: Rect): { item: T; rect: Rect }[] {
+  const total = items.reduce((sum, i) => sum + i.weight, 0);
+  if (total <= 0 || bounds.w <= 0 || bounds.h <= 0) return [];
+  const scale = (bounds.w * bounds.h) / total;
+  const queue = [...items].sort((a, b) => b.weight - a.weight).map(i => ({ item: i.item, area: i.weight * scale }));
+  const result: { item: T; rect: Rect }[] = [];
+  let { x, y, w, h } = bounds;
+
+  const worst = (row: { area: number }[], side: number) => {
+    const sum = row.reduce((s, r) => s + r.area, 0);
+    const max = Math.max(...row.map(r => r.area));
+    const min = Math.min(...row.map(r => r.area));
+    return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+  };
+
+  const flush = (row: { item: T; area: number }[]) => {
+    const sum = row.reduce((s, r) => s + r.area, 0);
+    if (w >= h) {
+      // Column on the left
+      const colWidth = sum / h;
+      let offset = y;
+      row.forEach(r => {
+        const cellHeight = r.area / colWidth;
+        result.push({ item: r.item, rect: { x, y: offset, w: colWidth, h: cellHeight } });
+        offset += cellHeight;
+      });
+      x += colWidth;
+      w -= colWidth;
+    } else {
+      // Row along the top
+      const rowHeight = sum / w;
+      let offset = x;
+      row.forEach(r => {
+        const cellWidth = r.area / rowHeight;
+        result.push({ item: r.item, rect: { x: offset, y, w: cellWidth, h: rowHeight } });
+        offset += cellWidth;
+      });
+      y += rowHeight;
+      h -= rowHeight;
+    }
+  };
+
+  let row: { item: T; area: number }[] = [];
+  while (queue.length) {
+    const next = queue[0];
+    const side = Math.min(w, h);
+    if (row.length === 0 || worst([...row, next], side) <= worst(row, side)) {
+      row.push(next);
+      queue.shift();
+    } else {
+      flush(row);
+      row = [];
+    }
+  }
+  if (row.length) flush(row);
+  return result;
+}
+
+const inset = (rect: Rect, top: number, pad: number): Rect => ({
+  x: rect.x + pad,
+  y: rect.y + top + pad,
+  w: Math.max(0, rect.w - pad * 2),
+  h: Math.max(0, rect.h - top - pad * 2)
+});
+
+const bandLabel = (index: number) => {
+  const low = index === 0 ? 1 : FEE_BUCKETS[index - 1];
+  const high = FEE_BUCKETS[index];
+  return high === Infinity ? `${low}+` : `${low}–${high}`;
+};
+
+/**
+ * The current backlog as a treemap: one region per fee band, sized by the
+ * BTC value waiting in it, subdivided into its largest transactions.
+ */
+export class TreemapScene implements Scene {
+  private cells = new Map<string, Cell>();
+  private grid = new SpatialGrid<Cell>();
+  private bands: Band[] = [];
+  private layoutVersion = -1;
+  private layoutSize = '';
+  private lastLayout = 0;
+  private backlog: Backlog;
+  private env: SceneEnv;
+
+  constructor(backlog: Backlog, env: SceneEnv) {
+    this.backlog = backlog;
+    this.env = env;
+  }
+
+  get count(): number {
+    return this.cells.size;
+  }
+
+  hitTest(x: number, y: number): string | null {
+    const cell = this.cellAt(x, y);
+    return cell && cell.merged === 0 ? cell.id : null;
+  }
+
+  render(ctx: Ctx2D, { time, mouse }: SceneFrame): SceneItem | null {
+    const now = performance.now();
+    const size = `${this.env.width}x${this.env.height}`;
+    const stale = this.backlog.version !== this.layoutVersion && now - this.lastLayout > RELAYOUT_MS;
+    if (stale || size !== this.layoutSize) {
+      this.layoutSize = size;
+      this.layoutVersion = this.backlog.version;
+      this.lastLayout = now;
+      this.layout();
+    }
+
+    this.grid.clear();
+    ctx.save();
+    this.bands.forEach(band => {
+      ctx.fillStyle = `hsla(${band.hue}, 60%, 25%, 0.25)`;
+      ctx.fillRect(band.rect.x, band.rect.y, band.rect.w, band.rect.h);
+      ctx.strokeStyle = `hsla(${band.hue}, 70%, 60%, 0.4)`;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(band.rect.x + 0.5, band.rect.y + 0.5, band.rect.w - 1, band.rect.h - 1);
+      if (band.rect.w > 90 && band.rect.h > BAND_HEADER * 2) {
+        ctx.font = '11px Share Tech Mono';
+        ctx.textAlign = 'left';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        ctx.fillText(band.label, band.rect.x + 4, band.rect.y + 12, band.rect.w - 8);
+      }
+    });
+
+    this.cells.forEach((cell, id) => {
+      const { rect, target } = cell;
+      if (cell.exit) {
+        cell.exitProgress += cell.exit === 'mined' ? 0.03 : 0.05;
+        const p = Math.max(0, cell.exitProgress);
+        cell.alpha = Math.max(0, 1 - p);
+        if (cell.exit === 'mined') {
+          // Shrink towards the centre as it's mined away
+          rect.x += rect.w * 0.04;
+          rect.y += rect.h * 0.04;
+          rect.w *= 0.92;
+          rect.h *= 0.92;
+        }
+        if (cell.exitProgress >= 1) {
+          this.cells.delete(id);
+          return;
+        }
+      } else {
+        rect.x += (target.x - rect.x) * 0.15;
+        rect.y += (target.y - rect.y) * 0.15;
+        rect.w += (target.w - rect.w) * 0.15;
+        rect.h += (target.h - rect.h) * 0.15;
+        cell.alpha = Math.min(0.9, cell.alpha + 0.05);
+        this.grid.insert(cell, rect.x, rect.y, rect.w, rect.h);
+      }
+      if (rect.w < 0.5 || rect.h < 0.5) return;
+      ctx.globalAlpha = cell.alpha;
+      ctx.fillStyle = cell.color;
+      ctx.fillRect(rect.x + 0.5, rect.y + 0.5, Math.max(0.5, rect.w - 1), Math.max(0.5, rect.h - 1));
+      if (cell.merged > 0 && rect.w > 70 && rect.h > 14) {
+        ctx.globalAlpha = 1;
+        ctx.font = '10px Share Tech Mono';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+        ctx.fillText(`+${cell.merged} smaller`, rect.x + rect.w / 2, rect.y + rect.h / 2 + 3, rect.w - 4);
+      }
+    });
+
+    this.cells.forEach(cell => {
+      if (!cell.pinnedLabel || cell.exit) return;
+      const { rect } = cell;
+      ctx.globalAlpha = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.lineDashOffset = -time * 20;
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = `rgba(250, 204, 21, ${0.6 + Math.sin(time * 4) * 0.3})`;
+      ctx.strokeRect(rect.x - 2, rect.y - 2, rect.w + 4, rect.h + 4);
+      ctx.setLineDash([]);
+      ctx.font = '12px Share Tech Mono';
+      ctx.textAlign = 'center';
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.9)';
+      ctx.fillText(cell.pinnedLabel, rect.x + rect.w / 2, rect.y - 6);
+    });
+    ctx.restore();
+
+    return this.cellAt(mouse.x, mouse.y);
+  }
+
+  private cellAt(x: number, y: number): Cell | null {
+    const candidates = this.grid.query(x, y);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const { rect } = candidates[i];
+      if (x >= rect.x && x < rect.x + rect.w && y >= rect.y && y < rect.y + rect.h) return candidates[i];
+    }
+    return null;
+  }
+
+  private layout() {
+    const { width, height } = this.env;
+    const bounds: Rect = {
+      x: SIDE_MARGIN,
+      y: TOP_MARGIN,
+      w: Math.max(0, width - SIDE_MARGIN * 2),
+      h: Math.max(0, height - TOP_MARGIN - BOTTOM_MARGIN)
+    };
+
+    const grouped: BacklogTx[][] = FEE_BUCKETS.map(() => []);
+    this.backlog.sorted().forEach(tx => {
+      const index = FEE_BUCKETS.findIndex(limit => tx.feeRate < limit);
+      grouped[index === -1 ? FEE_BUCKETS.length - 1 : index].push(tx);
+    });
+    // Zero-value txs still deserve a sliver of space
+    const weight = (tx: BacklogTx) => Math.max(tx.value, 1000);
+
+    const bandItems = grouped
+      .map((txs, index) => ({ index, txs, weight: txs.reduce((sum, tx) => sum + weight(tx), 0) }))
+      .filter(band => band.txs.length > 0);
+
+    const placed = new Set<string>();
+    this.bands = squarify(bandItems.map(band => ({ weight: band.weight, item: band })), bounds).map(({ item, rect }) => {
+      const btc = item.weight / 100_000_000;
+      const hue = getHueFromFeeRate(item.txs[Math.floor(item.txs.length / 2)].feeRate);
+      const showHeader = rect.w > 90 && rect.h > BAND_HEADER * 2;
+
+      const byValue = [...item.txs].sort((a, b) => b.value - a.value);
+      const singles = byValue.slice(0, MAX_CELLS_PER_BAND);
+      const rest = byValue.slice(MAX_CELLS_PER_BAND);
+      const cellItems: { weight: number; item: BacklogTx | BacklogTx[] }[] = singles.map(tx => ({ weight: weight(tx), item: tx }));
+      if (rest.length) cellItems.push({ weight: rest.reduce((sum, tx) => sum + weight(tx), 0), item: rest });
+
+      squarify(cellItems, inset(rect, showHeader ? BAND_HEADER : 0, 2)).forEach(({ item: cellItem, rect: cellRect }) => {
+        if (Array.isArray(cellItem)) {
+          const id = `band:${item.index}`;
+          const value = cellItem.reduce((sum, tx) => sum + tx.value, 0);
+          const feeRate = cellItem.reduce((sum, tx) => sum + tx.feeRate, 0) / cellItem.length;
+          this.place(id, { value, feeRate, isWhale: false, pinnedLabel: null }, cellRect, hue, cellItem.length);
+          placed.add(id);
+        } else {
+          this.place(cellItem.id, cellItem, cellRect, getHueFromFeeRate(cellItem.feeRate), 0);
+          placed.add(cellItem.id);
+        }
+      });
+
+      return {
+        rect,
+        hue,
+        label: `${bandLabel(item.index)} sat/vB · ${btc.toFixed(2)} BTC · ${item.txs.length} txs`
+      };
+    });
+
+    this.cells.forEach(cell => {
+      if (cell.exit || placed.has(cell.id)) return;
+      cell.exit = this.backlog.exitKind(cell.id) ?? 'dropped';
+      cell.exitProgress = cell.exit === 'mined' ? -Math.random() * 0.4 : 0;
+    });
+  }
+
+  private place(
+    id: string,
+    tx: Pick<BacklogTx, 'value' | 'feeRate' | 'isWhale' | 'pinnedLabel'>,
+    target: Rect,
+    hue: number,
+    merged: number
+  ) {
+    const cell = this.cells.get(id);
+    if (cell && !cell.exit) {
+      cell.target = target;
+      cell.value = tx.value;
+      cell.feeRate = tx.feeRate;
+      cell.pinnedLabel = tx.pinnedLabel;
+      cell.merged = merged;
+      return;
+    }
+    this.cells.set(id, {
+      id,
+      value: tx.value,
+      feeRate: tx.feeRate,
+      isWhale: tx.isWhale,
+      // New cells grow out of the centre of their slot
+      rect: { x: target.x + target.w / 2, y: target.y + target.h / 2, w: 0, h: 0 },
+      target,
+      alpha: 0,
+      color: merged > 0
+        ? `hsla(${hue}, 40%, 35%, 1)`
+        : tx.isWhale ? 'hsl(45, 100%, 65%)' : `hsl(${hue}, 85%, 50%)`,
+      pinnedLabel: tx.pinnedLabel,
+      merged,
+      exit: null,
+      exitProgress: 0
+    });
+  }
+}
@@ -0,0 +1,97 @@
+export type SceneId = 'bubbles' | 'blocks' | 'treemap';
+
+export const SCENES: { id: SceneId; label: string }[] = [
+  { id: 'bubbles', label: 'Bubbles' },
+  { id: 'blocks', label: 'Block tiles' },
+  { id: 'treemap', label: 'Treemap' }
+];
+
+export const DEFAULT_SCENE: SceneId = 'bubbles';
+
+export const isSceneId = (value: unknown): value is SceneId =>
+  SCENES.some(scene => scene.id === value);
+
+export type SceneTx = { id: string, value: number, feeRate: number, vsize?: number };
+
+/** Small txs the sequencer merged during a burst and played as one roll. */
+export type SceneCluster = { id: string, txs: SceneTx[] };
+
+/** What the hover tooltip shows; scenes return their own long-lived objects so hover state stays stable. */
+export interface SceneItem {
+  id: string;
+  value: number;
+  feeRate: number;
+  isWhale: boolean;
+  /** Txs merged into this item; absent for a single tx. */
+  count?: number;
+}
+
+/** Scenes draw the same way on a page canvas or an OffscreenCanvas in a worker. */
+export type Ctx2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Shared, mutable view of the canvas; the Visualizer updates it on resize and prop changes. */
+export interface SceneEnv {
+  width: number;
+  height: number;
+  whaleBtc: number;
+}
+
+export interface SceneFrame {
+  /** Animation clock; advances a fixed amount per frame. */
+  time: number;
+  mouse: { x: number; y: number };
+}
+
+/** Mempool events the visualizer reacts to; the page forwards these to whichever renderer is active. */
+export interface SceneEvents {
+  addTransaction(tx: SceneTx): void;
+  /** A burst merged by the sequencer's queue: one cluster bubble, but every tx joins the backlog. */
+  addCluster(cluster: SceneCluster): void;
+  flashBlock(): void;
+  /** Pop the bubbles of txids mined in a block. */
+  confirmTransactions(txids: string[]): void;
+  /** Dissolve the bubbles of txids that left the mempool unconfirmed. */
+  removeTransactions(txids: string[]): void;
+  /** Morph a bubble into its RBF replacement. */
+  replaceTransaction(txid: string, tx: SceneTx): void;
+  /** Highlight a watched tx and keep it on screen until unpinned or confirmed. */
+  pinTransaction(tx: SceneTx, label: string): void;
+  unpinTransaction(txid: string): void;
+}
+
+/** One `SceneEvents` call as plain data, so it can be posted to a render worker. */
+export type SceneEvent = {
+  [K in keyof SceneEvents]: { method: K; args: Parameters<SceneEvents[K]> }
+}[keyof SceneEvents];
+
+/**
+ * One visualizer mode. Every scene receives the `VisualizerHandle` events it
+ * cares about; those it leaves out are simply not relevant to how it draws.
+ */
+export interface Scene {
+  /** Items currently drawn, for the debug overlay. */
+  readonly count: number;
+  addTransaction?(tx: SceneTx): void;
+  addCluster?(cluster: SceneCluster): void;
+  confirmTransactions?(txids: Set<string>): void;
+  removeTransactions?(txids: Set<string>): void;
+  replaceTransaction?(txid: string, tx: SceneTx): void;
+  pinTransaction?(tx: SceneTx, label: string): void;
+  unpinTransaction?(txid: string): void;
+  flashBlock?(): void;
+  /** Draw one frame and return the item under the mouse, if any. */
+  render(ctx: Ctx2D, frame: SceneFrame): SceneItem | null;
+  /** Txid at a canvas point, for click-to-inspect. */
+  hitTest(x: number, y: number): string | null;
+}
+
+/**
+ * Fee rate to a nuanced tropical/cyber hue:
+ * 1 sat/vB -> 210 (deep blue), 50 -> 140 (island green), 150 -> 45 (sunset orange), 400+ -> 0 (fiery red).
+ */
+export const getHueFromFeeRate = (feeRate: number) => {
+  if (feeRate <= 1) return 210;
+  if (feeRate <= 50) return 210 - (feeRate / 50) * 70;
+  if (feeRate <= 150) return 140 - ((feeRate - 50) / 100) * 95;
+  return Math.max(0, 45 - ((feeRate - 150) / 250) * 45);
+};
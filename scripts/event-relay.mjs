@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+/**
+ * Reference relay for the app's outbound event bus. Dependency-free.
+ *
+ *   node scripts/event-relay.mjs [--port 8787] [--udp 127.0.0.1:9000]
+ *
+ * Every websocket message from one client is broadcast to all the others, so the
+ * radio publishes and any number of VJ/stream tools subscribe to the same port.
+ * With --udp, binary (OSC) messages are also forwarded as UDP datagrams for tools
+ * that only speak plain OSC, e.g. TouchDesigner or Resolume.
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { createSocket } from 'node:dgram';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OP_TEXT = 0x1;
+const OP_BINARY = 0x2;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+function option(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index > -1 ? process.argv[index + 1] : fallback;
+}
+
+const port = parseInt(option('port', '8787'), 10);
+const udpTarget = option('udp', null);
+const udp = udpTarget ? createSocket('udp4') : null;
+const [udpHost, udpPort] = udpTarget ? udpTarget.split(':') : [];
+
+const clients = new Set();
+let relayed = 0;
+
+/** Parse one frame from the front of `buffer`, or return null until more bytes arrive. */
+function readFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, size: offset + length };
+}
+
+/** Server frames are never masked; the app only sends small unfragmented messages. */
+function encodeFrame(opcode, payload) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function broadcast(sender, opcode, payload) {
+  const frame = encodeFrame(opcode, payload);
+  clients.forEach(client => {
+    if (client !== sender && !client.destroyed) client.write(frame);
+  });
+  if (udp && opcode === OP_BINARY) udp.send(payload, Number(udpPort), udpHost);
+  relayed++;
+}
+
+function handleFrame(socket, { opcode, payload }) {
+  switch (opcode) {
+    case OP_TEXT:
+    case OP_BINARY:
+      broadcast(socket, opcode, payload);
+      break;
+    case OP_PING:
+      socket.write(encodeFrame(OP_PONG, payload));
+      break;
+    case OP_CLOSE:
+      socket.end(encodeFrame(OP_CLOSE, Buffer.alloc(0)));
+      break;
+  }
+}
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('mempool.fm event relay: connect with a websocket client\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`client connected (${clients.size} total)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    pending = Buffer.concat([pending, chunk]);
+    let frame;
+    while ((frame = readFrame(pending))) {
+      pending = pending.subarray(frame.size);
+      handleFrame(socket, frame);
+    }
+  });
+  socket.on('close', () => {
+    clients.delete(socket);
+    console.log(`client disconnected (${clients.size} total)`);
+  });
+  socket.on('error', err => console.error('socket error', err.message));
+});
+
+server.listen(port, () => {
+  console.log(`event relay listening on ws://localhost:${port}`);
+  if (udp) console.log(`forwarding OSC to udp://${udpHost}:${udpPort}`);
+});
+
+setInterval(() => {
+  if (relayed > 0) console.log(`${relayed} messages relayed in the last minute`);
+  relayed = 0;
+}, 60_000).unref();
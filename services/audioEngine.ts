@@ -1,72 +1,219 @@
+import { SoundPack, VoiceSpec, VoiceId, DEFAULT_SOUND_PACK } from './soundPacks';
+import { Mixer, ChannelId } from './mixer';
+import { TxCluster, summarizeCluster } from './txQueue';
+
+/** How a transaction's fee rate colours its note. */
+interface FeeShape {
+  /** Lowpass cutoff in Hz: cheap txs are muffled, expensive ones bright. */
+  cutoff: number;
+  /** Multiplier on the voice attack: high fees hit harder. */
+  attackScale: number;
+  /** Stereo position, -1 (cheap, left) to 1 (expensive, right). */
+  pan: number;
+  /** Pitch multiplier; priority txs jump an octave. */
+  octave: number;
+  /** 0 (1 sat/vB) to 1 (400+ sat/vB). */
+  intensity: number;
+}
+
+/** Receives the notes the engine plays, e.g. to mirror them to MIDI. `delay` is seconds from now. */
+export interface NoteSink {
+  /** `velocity` is 0-1. */
+  note(voice: VoiceId, freq: number, velocity: number, delay: number, duration: number): void;
+  block(delay: number): void;
+}
+
+/** How the market colours the music (see PriceMood). */
+export interface MarketMood {
+  /** Semitones the whole scale is shifted by. */
+  transpose: number;
+  /** Flatten the scale's major third, sixth and seventh. */
+  minor: boolean;
+  /** 0..1 size of recent price moves; deepens the delay feedback and reverb. */
+  intensity: number;
+}
+
+export const NEUTRAL_MOOD: MarketMood = { transpose: 0, minor: false, intensity: 0 };
+
+/** Semitones above the root that `minor` lowers by one. */
+const MAJOR_DEGREES = [4, 9, 11];
+
+/** An interval above the root, adjusted for the mood's mode. */
+export const moodInterval = (semitones: number, minor: boolean) =>
+  minor && MAJOR_DEGREES.includes(((semitones % 12) + 12) % 12) ? semitones - 1 : semitones;
+/** Delay feedback and reverb return at full mood intensity; feedback stays below runaway. */
+const MOOD_MAX_FEEDBACK = 0.8;
+const MOOD_REVERB_BOOST = 0.8;
+const RISER_SECONDS = 2.4;
+const DROP_SECONDS = 1.4;
+
+/** Velocity for notes without a fee rate (comp hits, ghost notes). */
+const DEFAULT_VELOCITY = 0.3;
+/** Notes in a cluster roll, and the gap between them in seconds. */
+const MAX_ROLL_NOTES = 5;
+const ROLL_SPACING = 0.035;
 
 export class AudioEngine {
-  private ctx: AudioContext | null = null;
+  private ctx: BaseAudioContext | null = null;
   private masterGain: GainNode | null = null;
   private reverb: ConvolverNode | null = null;
+  private reverbReturn: GainNode | null = null;
   private delay: DelayNode | null = null;
   private delayFeedback: GainNode | null = null;
-  private isShakerStarted = false;
+  private delayFilter: BiquadFilterNode | null = null;
+  private pack: SoundPack = DEFAULT_SOUND_PACK;
+  private mood: MarketMood = NEUTRAL_MOOD;
+  private moodScale: number[] = DEFAULT_SOUND_PACK.scale;
+  private random: () => number;
+  private noteSink: NoteSink | null = null;
+  private synthMuted = false;
+  readonly mixer: Mixer;
 
-  // Mixolydian Scale (G Major with a flat 7th)
-  private DRUM_FREQUENCIES = [
-    196.00, 220.00, 246.94, 261.63, 293.66, 329.63, 349.23, 392.00,
-    440.00, 493.88, 523.25, 587.33, 659.25, 698.46, 783.99, 880.00,
-  ];
-
-  constructor() {}
+  /** `random` drives every stochastic choice, so a seeded one gives reproducible renders. */
+  constructor(random: () => number = Math.random, mixer: Mixer = new Mixer()) {
+    this.random = random;
+    this.mixer = mixer;
+  }
 
   async init() {
     if (this.ctx && this.ctx.state === 'running') return;
     
-    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({
+    const ctx: AudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
       latencyHint: 'interactive'
     });
+    this.attach(ctx);
     
+    if (ctx.state === 'suspended') {
+      await ctx.resume();
+    }
+
+    // Immediate feedback sound
+    this.playStartupChime();
+  }
+
+  /**
+   * Build the master bus and effects on `ctx` and route all voices there.
+   * The live engine attaches its AudioContext; offline renders attach an OfflineAudioContext.
+   */
+  attach(ctx: BaseAudioContext) {
+    this.ctx = ctx;
     this.masterGain = this.ctx.createGain();
     this.masterGain.gain.value = 0.5;
 
     // Dub Delay
     this.delay = this.ctx.createDelay(2.0);
-    this.delay.delayTime.value = 0.45;
     this.delayFeedback = this.ctx.createGain();
-    this.delayFeedback.gain.value = 0.4;
-    
-    const delayFilter = this.ctx.createBiquadFilter();
-    delayFilter.type = 'lowpass';
-    delayFilter.frequency.value = 1000;
+    this.delayFilter = this.ctx.createBiquadFilter();
+    this.delayFilter.type = 'lowpass';
 
     this.delay.connect(this.delayFeedback);
-    this.delayFeedback.connect(delayFilter);
-    delayFilter.connect(this.delay);
+    this.delayFeedback.connect(this.delayFilter);
+    this.delayFilter.connect(this.delay);
     this.delay.connect(this.masterGain);
 
     // Warm Plate Reverb
     this.reverb = this.ctx.createConvolver();
-    this.setupReverb();
+    this.reverbReturn = this.ctx.createGain();
+    this.reverb.connect(this.reverbReturn);
+    this.reverbReturn.connect(this.masterGain);
+    this.applyEffects();
 
+    this.mixer.attach(this.ctx, this.masterGain, this.reverb, this.delay);
     this.masterGain.connect(this.ctx.destination);
-    
-    if (this.ctx.state === 'suspended') {
-      await this.ctx.resume();
-    }
+  }
 
-    // Immediate feedback sound
-    this.playStartupChime();
-    this.startShaker();
+  /** Mirror transaction and block notes to `sink`; `replaceSynth` silences the built-in voices for them. */
+  setNoteSink(sink: NoteSink | null, replaceSynth = false) {
+    this.noteSink = sink;
+    this.synthMuted = sink !== null && replaceSynth;
   }
 
-  private async setupReverb() {
-    if (!this.ctx) return;
-    const length = this.ctx.sampleRate * 2.5;
+  /** Dry destination for a voice family; the master bus if the mixer isn't attached. */
+  private channelInput(id: ChannelId): AudioNode {
+    return this.mixer.input(id) ?? this.masterGain!;
+  }
+
+  /** Live contexts must be running; offline ones are scheduled before rendering starts. */
+  private canPlay(): boolean {
+    if (!this.ctx) return false;
+    return this.ctx.state === 'running'
+      || (typeof OfflineAudioContext !== 'undefined' && this.ctx instanceof OfflineAudioContext);
+  }
+
+  /** AudioContext clock in seconds, or null before init. The sequencer schedules against this. */
+  get currentTime(): number | null {
+    return this.ctx ? this.ctx.currentTime : null;
+  }
+
+  get soundPack(): SoundPack {
+    return this.pack;
+  }
+
+  /** The pack's scale in the current mood's key and mode; every voice picks its notes from this. */
+  get scale(): number[] {
+    return this.moodScale;
+  }
+
+  get marketMood(): MarketMood {
+    return this.mood;
+  }
+
+  setMood(mood: MarketMood) {
+    this.mood = mood;
+    this.moodScale = this.buildScale();
+    this.applyEffects(false);
+  }
+
+  private buildScale(): number[] {
+    return this.pack.scale.map(freq => this.moodFreq(freq));
+  }
+
+  /**
+   * A pack pitch in the current mood's key and mode, measured against the
+   * scale's root. Fixed-pitch voices and the chime go through this too so
+   * they stay in key with the scale.
+   */
+  private moodFreq(freq: number): number {
+    const semitones = Math.round(12 * Math.log2(freq / this.pack.scale[0]));
+    const flatten = moodInterval(semitones, this.mood.minor) !== semitones;
+    return freq * Math.pow(2, (this.mood.transpose - (flatten ? 1 : 0)) / 12);
+  }
+
+  /** Swap scale, voices and effects live; notes already sounding ring out untouched. */
+  setSoundPack(pack: SoundPack) {
+    const reverbChanged = pack.effects.reverbSeconds !== this.pack.effects.reverbSeconds
+      || pack.effects.reverbDecay !== this.pack.effects.reverbDecay;
+    this.pack = pack;
+    this.moodScale = this.buildScale();
+    this.applyEffects(reverbChanged);
+  }
+
+  private applyEffects(rebuildReverb = true) {
+    if (!this.ctx || !this.delay || !this.delayFeedback || !this.delayFilter || !this.reverbReturn) return;
+    const { effects } = this.pack;
+    const { intensity } = this.mood;
+    const now = this.ctx.currentTime;
+    const feedback = effects.delayFeedback + Math.max(0, MOOD_MAX_FEEDBACK - effects.delayFeedback) * intensity;
+    this.delay.delayTime.setTargetAtTime(effects.delayTime, now, 0.1);
+    // Mood changes swell in over a couple of seconds rather than jumping
+    this.delayFeedback.gain.setTargetAtTime(feedback, now, 0.8);
+    this.reverbReturn.gain.setTargetAtTime(1 + intensity * MOOD_REVERB_BOOST, now, 0.8);
+    this.delayFilter.frequency.setTargetAtTime(effects.delayFilterHz, now, 0.1);
+    if (rebuildReverb) this.setupReverb();
+  }
+
+  private setupReverb() {
+    if (!this.ctx || !this.reverb) return;
+    const { reverbSeconds, reverbDecay } = this.pack.effects;
+    const length = this.ctx.sampleRate * reverbSeconds;
     const impulse = this.ctx.createBuffer(2, length, this.ctx.sampleRate);
     for (let i = 0; i < 2; i++) {
       const channel = impulse.getChannelData(i);
       for (let j = 0; j < length; j++) {
-        channel[j] = (Math.random() * 2 - 1) * Math.pow(1 - j / length, 3.0);
+        channel[j] = (this.random() * 2 - 1) * Math.pow(1 - j / length, reverbDecay);
       }
     }
-    this.reverb!.buffer = impulse;
-    this.reverb!.connect(this.masterGain!);
+    this.reverb.buffer = impulse;
   }
 
   setVolume(value: number) {
@@ -75,189 +222,334 @@ export class AudioEngine {
     }
   }
 
-  private playStartupChime() {
+  private playStartupChime(time?: number) {
     if (!this.ctx) return;
-    const now = this.ctx.currentTime;
-    [196, 246.94, 293.66, 392].forEach((f, i) => {
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    this.pack.chime.forEach((f, i) => {
       const osc = this.ctx!.createOscillator();
       const env = this.ctx!.createGain();
-      osc.frequency.setValueAtTime(f, now + i * 0.1);
+      osc.frequency.setValueAtTime(this.moodFreq(f), now + i * 0.1);
       env.gain.setValueAtTime(0, now + i * 0.1);
       env.gain.linearRampToValueAtTime(0.2, now + i * 0.1 + 0.05);
       env.gain.exponentialRampToValueAtTime(0.001, now + i * 0.1 + 1.5);
       osc.connect(env);
-      env.connect(this.masterGain!);
+      env.connect(this.channelInput('chime'));
       osc.start(now + i * 0.1);
       osc.stop(now + i * 0.1 + 1.6);
     });
   }
 
-  private startShaker() {
-    if (this.isShakerStarted || !this.ctx) return;
-    this.isShakerStarted = true;
-    
-    // Constant low-volume pulse to ensure the user knows audio is on
-    const trigger = () => {
-      if (!this.ctx || !this.masterGain) return;
-      const now = this.ctx.currentTime;
-      const noise = this.ctx.createBufferSource();
-      const bufferSize = this.ctx.sampleRate * 0.05;
-      const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
-      noise.buffer = buffer;
+  /** Constant low-volume pulse so the user knows audio is on; timed by the sequencer. */
+  playShaker(time: number) {
+    if (!this.ctx || !this.masterGain || !this.canPlay()) return;
+    const now = Math.max(time, this.ctx.currentTime);
+    const noise = this.ctx.createBufferSource();
+    const bufferSize = this.ctx.sampleRate * 0.05;
+    const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < bufferSize; i++) data[i] = this.random() * 2 - 1;
+    noise.buffer = buffer;
 
-      const filter = this.ctx.createBiquadFilter();
-      filter.type = 'highpass';
-      filter.frequency.value = 8000;
-
-      const env = this.ctx.createGain();
-      env.gain.setValueAtTime(0.015, now);
-      env.gain.exponentialRampToValueAtTime(0.0001, now + 0.04);
-
-      noise.connect(filter);
-      filter.connect(env);
-      env.connect(this.masterGain);
-      noise.start(now);
-      
-      setTimeout(trigger, 400); // Steady island shaker pulse
-    };
-    trigger();
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 8000;
+
+    const env = this.ctx.createGain();
+    env.gain.setValueAtTime(0.015, now);
+    env.gain.exponentialRampToValueAtTime(0.0001, now + 0.04);
+
+    noise.connect(filter);
+    filter.connect(env);
+    env.connect(this.channelInput('shaker'));
+    noise.start(now);
   }
 
   private getFrequencyFromValue(btcValue: number, low: number, high: number): number {
+    const scale = this.scale;
+    if (high <= low) return scale[0];
     const clampedVal = Math.max(low, Math.min(high, btcValue));
     const logMin = Math.log10(low);
     const logMax = Math.log10(high);
     const logVal = Math.log10(clampedVal);
     const ratio = (logVal - logMin) / (logMax - logMin);
-    const index = Math.floor((1 - ratio) * (this.DRUM_FREQUENCIES.length - 1));
-    return this.DRUM_FREQUENCIES[index];
+    const index = Math.floor((1 - ratio) * (scale.length - 1));
+    return scale[index];
+  }
+
+  /**
+   * Same fee bands the visualizer uses for hue: ~1 sat/vB is dull and left,
+   * 150+ sat/vB jumps an octave, 400+ is fully bright and right.
+   */
+  private getFeeShape(feeRate: number): FeeShape {
+    const intensity = Math.min(1, Math.log10(Math.max(1, feeRate)) / Math.log10(400));
+    return {
+      cutoff: 700 * Math.pow(12000 / 700, intensity),
+      attackScale: 1.6 - intensity * 1.2,
+      pan: (intensity * 2 - 1) * 0.7,
+      octave: feeRate >= 150 ? 2 : 1,
+      intensity
+    };
   }
 
-  playTransaction(valueSats: number, beatPos: number) {
-    if (!this.ctx || this.ctx.state !== 'running') return;
+  /**
+   * `time` is an AudioContext timestamp; omitted means "now".
+   * `feeRate` (sat/vB) shapes timbre; omitted leaves the voice untouched (ghost notes).
+   */
+  playTransaction(valueSats: number, beatPos: number, time?: number, feeRate?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const at = Math.max(time ?? 0, this.ctx.currentTime);
     const btcValue = valueSats / 100_000_000;
+    const { groove, voices } = this.pack;
     
-    const isSkankBeat = [4, 12].includes(beatPos % 16);
-    if (isSkankBeat && (btcValue > 0 || Math.random() < 0.3)) {
-      this.createOrganSkank(392.00); 
+    const isCompBeat = groove.compSteps.includes(beatPos % 16);
+    if (isCompBeat && (btcValue > 0 || this.random() < groove.compChance)) {
+      const freq = voices.skank.fixedFreq !== undefined ? this.moodFreq(voices.skank.fixedFreq) : this.scale[0];
+      this.emitNote('skank', voices.skank, freq, btcValue, at);
     }
 
     if (btcValue <= 0) return;
+    this.playTier(btcValue, at, feeRate !== undefined ? this.getFeeShape(feeRate) : undefined);
+  }
 
-    if (btcValue >= 1.0) {
-      this.createWhaleStrike(btcValue);
-    } else if (btcValue >= 0.1) {
-      const freq = this.getFrequencyFromValue(btcValue, 0.1, 1.0);
-      this.createSteelDrumStrike(freq, btcValue);
-    } else if (btcValue >= 0.01) {
-      const freq = this.getFrequencyFromValue(btcValue, 0.01, 0.1);
-      this.createMarimbaStrike(freq, btcValue);
-    } else {
-      const freq = this.getFrequencyFromValue(btcValue, 0.00001, 0.01);
-      this.createUkulelePluck(freq, btcValue);
+  /**
+   * A burst of small txs merged by the queue: a quick roll over a handful of
+   * their notes, largest value (lowest note) first, in the burst's fee colour.
+   */
+  playCluster(cluster: TxCluster, time?: number) {
+    if (!this.ctx || !this.canPlay() || cluster.txs.length === 0) return;
+    const at = Math.max(time ?? 0, this.ctx.currentTime);
+    const shape = this.getFeeShape(summarizeCluster(cluster).feeRate);
+    const sorted = cluster.txs.map(tx => tx.value).sort((a, b) => b - a);
+    const notes = Math.min(MAX_ROLL_NOTES, sorted.length);
+    for (let i = 0; i < notes; i++) {
+      // Spread the picks across the whole burst rather than only its largest txs
+      const value = sorted[Math.round((i * (sorted.length - 1)) / Math.max(1, notes - 1))];
+      this.playTier(Math.max(1, value) / 100_000_000, at + i * ROLL_SPACING, shape);
+    }
+  }
+
+  private playTier(btcValue: number, at: number, shape?: FeeShape) {
+    const { tiers, voices } = this.pack;
+    const tier = tiers.find(t => btcValue >= t.minBtc) ?? tiers[tiers.length - 1];
+    const voice = voices[tier.voice];
+    const freq = voice.fixedFreq !== undefined
+      ? this.moodFreq(voice.fixedFreq)
+      : this.getFrequencyFromValue(btcValue, tier.range[0], tier.range[1]);
+    this.emitNote(tier.voice, voice, freq, btcValue, at, shape);
+  }
+
+  /** Send a tier note to the note sink and/or the built-in synth. */
+  private emitNote(id: VoiceId, voice: VoiceSpec, freq: number, btcValue: number, at: number, shape?: FeeShape) {
+    if (this.noteSink && this.ctx) {
+      const feeOctave = shape && voice.fixedFreq === undefined ? shape.octave : 1;
+      const velocity = shape ? 0.35 + shape.intensity * 0.65 : DEFAULT_VELOCITY;
+      this.noteSink.note(id, freq * (voice.octave ?? 1) * feeOctave, velocity, at - this.ctx.currentTime, voice.duration);
     }
+    if (!this.synthMuted) this.playVoice(voice, id, freq, btcValue, at, shape);
   }
 
-  private createOrganSkank(freq: number) {
+  /** One note of the projected-block harmony layer; `duration` defaults to the pack's. */
+  playHarmony(part: 'pad' | 'bass', freq: number, time: number, duration?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const voice = this.pack.harmony[part];
+    const held = Math.max(voice.attack + 0.05, duration ?? voice.duration);
+    this.playVoice(voice, 'harmony', freq, 0, Math.max(time, this.ctx.currentTime), undefined, held);
+  }
+
+  private playVoice(
+    voice: VoiceSpec,
+    channel: ChannelId,
+    freq: number,
+    btcValue: number,
+    now: number,
+    shape?: FeeShape,
+    duration: number = voice.duration
+  ) {
     if (!this.ctx || !this.masterGain) return;
-    const now = this.ctx.currentTime;
-    const duration = 0.15;
-    const vol = 0.08;
+    const { volume: vol } = voice;
+    const volume = vol.base + vol.scale * (vol.curve === 'sqrt' ? Math.sqrt(btcValue) : btcValue);
+    // Fixed-pitch voices (sub-bass, comp chords) keep their register
+    const feeOctave = shape && voice.fixedFreq === undefined ? shape.octave : 1;
+    const pitch = freq * (voice.octave ?? 1) * feeOctave;
+    const attack = Math.max(0.002, voice.attack * (shape?.attackScale ?? 1));
+
+    const env = this.ctx.createGain();
+    env.gain.setValueAtTime(0, now);
+    env.gain.linearRampToValueAtTime(volume, now + attack);
+    env.gain.exponentialRampToValueAtTime(0.001, now + duration);
 
-    [1, 2, 1.5].forEach((ratio, i) => {
+    voice.partials.forEach(partial => {
       const osc = this.ctx!.createOscillator();
-      const env = this.ctx!.createGain();
-      osc.type = i === 0 ? 'triangle' : 'sine';
-      osc.frequency.setValueAtTime(freq * ratio, now);
-      env.gain.setValueAtTime(0, now);
-      env.gain.linearRampToValueAtTime(vol / (i + 1), now + 0.01);
-      env.gain.exponentialRampToValueAtTime(0.001, now + duration);
-      osc.connect(env);
-      env.connect(this.masterGain!);
+      const partialGain = this.ctx!.createGain();
+      osc.type = partial.type;
+      osc.frequency.setValueAtTime(pitch * partial.ratio, now);
+      partialGain.gain.value = partial.gain;
+      osc.connect(partialGain);
+      partialGain.connect(env);
       osc.start(now);
       osc.stop(now + duration + 0.1);
     });
+
+    let output: AudioNode = env;
+    if (voice.filter) {
+      const filter = this.ctx.createBiquadFilter();
+      filter.type = voice.filter.type;
+      filter.frequency.value = voice.filter.frequency;
+      if (voice.filter.Q !== undefined) filter.Q.value = voice.filter.Q;
+      output.connect(filter);
+      output = filter;
+    }
+
+    if (shape) {
+      const brightness = this.ctx.createBiquadFilter();
+      brightness.type = 'lowpass';
+      brightness.frequency.value = shape.cutoff;
+      output.connect(brightness);
+      const panner = this.ctx.createStereoPanner();
+      panner.pan.value = shape.pan;
+      brightness.connect(panner);
+      output = panner;
+    }
+
+    output.connect(this.channelInput(channel));
+    const taps = this.mixer.taps(channel);
+    this.connectSend(output, taps?.reverb ?? this.reverb, voice.reverbSend);
+    this.connectSend(output, taps?.delay ?? this.delay, voice.delaySend);
   }
 
-  private createWhaleStrike(btcValue: number) {
-    if (!this.ctx || !this.masterGain) return;
-    const now = this.ctx.currentTime;
-    const baseFreq = 49.00;
-    const duration = 5.0;
-    const volume = 0.4;
-    const env = this.ctx.createGain();
-    const osc = this.ctx.createOscillator();
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(baseFreq, now);
-    env.gain.setValueAtTime(0, now);
-    env.gain.linearRampToValueAtTime(volume, now + 0.1);
-    env.gain.exponentialRampToValueAtTime(0.001, now + duration);
-    osc.connect(env);
-    env.connect(this.masterGain);
-    osc.start(now);
-    osc.stop(now + duration + 0.1);
+  private connectSend(source: AudioNode, target: AudioNode | null, amount?: number) {
+    if (!this.ctx || !target || !amount) return;
+    if (amount === 1) {
+      source.connect(target);
+      return;
+    }
+    const send = this.ctx.createGain();
+    send.gain.value = amount;
+    source.connect(send);
+    send.connect(target);
   }
 
-  private createUkulelePluck(freq: number, btcValue: number) {
-    if (!this.ctx || !this.masterGain) return;
-    const now = this.ctx.currentTime;
-    const volume = 0.1 + (btcValue * 10);
-    const duration = 0.4;
+  /** Short pitched glide on the cues channel; the building block for tx lifecycle cues. */
+  private playGlide(from: number, to: number, start: number, duration: number, level: number, type: OscillatorType) {
+    if (!this.ctx) return;
     const osc = this.ctx.createOscillator();
     const env = this.ctx.createGain();
-    osc.type = 'triangle';
-    osc.frequency.setValueAtTime(freq * 2, now);
-    env.gain.setValueAtTime(0, now);
-    env.gain.linearRampToValueAtTime(volume, now + 0.005);
-    env.gain.exponentialRampToValueAtTime(0.001, now + duration);
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    env.gain.setValueAtTime(0, start);
+    env.gain.linearRampToValueAtTime(level, start + 0.01);
+    env.gain.exponentialRampToValueAtTime(0.001, start + duration);
     osc.connect(env);
-    env.connect(this.masterGain);
-    osc.start(now);
-    osc.stop(now + duration + 0.1);
+    env.connect(this.channelInput('cues'));
+    osc.start(start);
+    osc.stop(start + duration + 0.05);
   }
 
-  private createMarimbaStrike(freq: number, btcValue: number) {
-    if (!this.ctx || !this.masterGain) return;
-    const now = this.ctx.currentTime;
-    const volume = 0.15 + (btcValue * 3);
-    const duration = 0.8;
-    const osc = this.ctx.createOscillator();
+  /** Band of noise swept between two frequencies on the cues channel; `swell` fades in instead of out. */
+  private playNoiseSweep(from: number, to: number, start: number, duration: number, level: number, swell: boolean) {
+    if (!this.ctx) return;
+    const length = Math.floor(this.ctx.sampleRate * duration);
+    const buffer = this.ctx.createBuffer(1, length, this.ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < length; i++) data[i] = this.random() * 2 - 1;
+    const noise = this.ctx.createBufferSource();
+    noise.buffer = buffer;
+
+    const filter = this.ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.Q.value = 4;
+    filter.frequency.setValueAtTime(from, start);
+    filter.frequency.exponentialRampToValueAtTime(to, start + duration);
+
     const env = this.ctx.createGain();
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(freq, now);
-    env.gain.setValueAtTime(0, now);
-    env.gain.linearRampToValueAtTime(volume, now + 0.005);
-    env.gain.exponentialRampToValueAtTime(0.001, now + duration);
-    osc.connect(env);
-    env.connect(this.masterGain);
-    osc.start(now);
-    osc.stop(now + duration + 0.1);
+    env.gain.setValueAtTime(swell ? 0.0001 : level, start);
+    env.gain.exponentialRampToValueAtTime(swell ? level : 0.0001, start + duration);
+
+    noise.connect(filter);
+    filter.connect(env);
+    env.connect(this.channelInput('cues'));
+    this.connectSend(env, this.delay, 0.3);
+    noise.start(start);
   }
 
-  private createSteelDrumStrike(freq: number, btcValue: number) {
-    if (!this.ctx || !this.masterGain) return;
-    const now = this.ctx.currentTime;
-    const duration = 1.5;
-    const volume = 0.2 + Math.sqrt(btcValue) * 0.1;
-    const osc = this.ctx.createOscillator();
-    const env = this.ctx.createGain();
-    osc.type = 'triangle';
-    osc.frequency.setValueAtTime(freq, now);
-    env.gain.setValueAtTime(0, now);
-    env.gain.linearRampToValueAtTime(volume, now + 0.01);
-    env.gain.exponentialRampToValueAtTime(0.001, now + duration);
-    osc.connect(env);
-    env.connect(this.masterGain);
-    if (this.reverb) env.connect(this.reverb);
-    osc.start(now);
-    osc.stop(now + duration + 0.1);
+  /**
+   * Sharp price move: a swelling noise riser when up, a falling sub drop with a
+   * noise tail when down. `size` (0..1) sets how loud it lands.
+   */
+  playPriceMove(direction: 'up' | 'down', size: number, time?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    const level = 0.04 + Math.min(1, size) * 0.06;
+    if (direction === 'up') {
+      this.playNoiseSweep(300, 8000, now, RISER_SECONDS, level, true);
+    } else {
+      const root = this.scale[0];
+      this.playGlide(root, root / 4, now, DROP_SECONDS, level * 2, 'sine');
+      this.playNoiseSweep(6000, 200, now, DROP_SECONDS, level, false);
+    }
+  }
+
+  /** Evicted/dropped txs: a soft falling sigh, louder for bigger batches. */
+  playRemoved(count: number, time?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    const root = this.scale[this.scale.length - 1];
+    this.playGlide(root, root / 2, now, 0.35, Math.min(0.08, 0.02 + count * 0.004), 'sine');
+  }
+
+  /** RBF replacement: a quick upward fifth, the sound of someone bumping their fee. */
+  playReplaced(time?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    const root = this.scale[4];
+    this.playGlide(root, root * 1.5, now, 0.18, 0.06, 'triangle');
+  }
+
+  /** Confirmed txs: a sparkle of high ticks, a few more for a fuller block. */
+  playConfirmed(count: number, time?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    const scale = this.scale;
+    const ticks = Math.min(8, 2 + Math.floor(Math.log2(Math.max(1, count))));
+    for (let i = 0; i < ticks; i++) {
+      const freq = scale[scale.length - 1 - Math.floor(this.random() * 5)] * 2;
+      this.playGlide(freq, freq * 0.98, now + 0.4 + i * 0.06, 0.12, 0.04, 'sine');
+    }
+  }
+
+  /**
+   * Watchlist motif: a bell-like rising figure that never occurs in the grid,
+   * resolving up to the octave when the watched tx confirms.
+   */
+  playWatchMotif(confirmed: boolean, time?: number) {
+    if (!this.ctx || !this.canPlay()) return;
+    const now = Math.max(time ?? 0, this.ctx.currentTime);
+    const root = this.scale[7] ?? this.scale[0];
+    const intervals = confirmed ? [0, 4, 7, 12] : [0, 7, 4];
+    intervals.forEach((semis, i) => {
+      const freq = root * Math.pow(2, semis / 12);
+      [1, 2.01].forEach((ratio, j) => {
+        const osc = this.ctx!.createOscillator();
+        const env = this.ctx!.createGain();
+        const start = now + i * 0.14;
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(freq * ratio, start);
+        env.gain.setValueAtTime(0, start);
+        env.gain.linearRampToValueAtTime(0.12 / (j + 1), start + 0.005);
+        env.gain.exponentialRampToValueAtTime(0.001, start + 1.2);
+        osc.connect(env);
+        env.connect(this.channelInput('watch'));
+        osc.start(start);
+        osc.stop(start + 1.3);
+      });
+    });
   }
 
-  playBlockConfirm() {
+  playBlockConfirm(time?: number) {
     if (!this.ctx || !this.masterGain) return;
-    this.playStartupChime(); // Use chime as celebratory block confirmation
+    this.noteSink?.block(Math.max(0, (time ?? 0) - this.ctx.currentTime));
+    if (!this.synthMuted) this.playStartupChime(time); // Use chime as celebratory block confirmation
   }
 }
 
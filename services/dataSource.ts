@@ -0,0 +1,48 @@
+import { Transaction, Block, MempoolStats, ProjectedBlock, TxReplacement, WatchMatch } from '../types';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/** Callbacks every feed source pushes into. */
+export interface DataSourceHandlers {
+  onTransaction: (tx: Transaction) => void;
+  onBlock: (block: Block) => void;
+  onStats: (stats: MempoolStats) => void;
+  onStatus?: (status: ConnectionStatus) => void;
+  /** Txids dropped from the mempool without confirming (evicted, expired, conflicted). */
+  onRemoved?: (txids: string[]) => void;
+  /** RBF replacements, old txid and its replacement. */
+  onReplaced?: (replacements: TxReplacement[]) => void;
+  /** Txids mined in a new block. */
+  onConfirmed?: (txids: string[]) => void;
+  /** Activity on a tracked address or txid (see MempoolSocket.setTracking). */
+  onWatchMatch?: (match: WatchMatch) => void;
+  /** Projected next blocks from `mempool-blocks`, next block first. */
+  onProjectedBlocks?: (blocks: ProjectedBlock[]) => void;
+  /** Spot price carried by a source itself (e.g. a recorded REST snapshot). */
+  onPrice?: (btcPrice: number) => void;
+  /** Every raw frame before parsing, for the session recorder; only called while enabled (see RawFrameSource). */
+  onRawFrame?: (raw: string) => void;
+}
+
+/** A source of mempool events: the live websocket, a recorded replay, etc. */
+export interface DataSource {
+  connect(): void;
+  disconnect(): void;
+}
+
+/** A live source that can follow watched addresses and txids. */
+export interface TrackingSource extends DataSource {
+  /** Subscribe to address/tx tracking; re-sent automatically after reconnects. */
+  setTracking(addresses: string[], txids: string[]): void;
+}
+
+/** A source that can pass raw frames to `onRawFrame`; off until enabled, since it costs a copy per frame. */
+export interface RawFrameSource extends DataSource {
+  setForwardRaw(enabled: boolean): void;
+}
+
+export const isTrackingSource = (source: DataSource | null): source is TrackingSource =>
+  source !== null && 'setTracking' in source;
+
+export const isRawFrameSource = (source: DataSource | null): source is RawFrameSource =>
+  source !== null && 'setForwardRaw' in source;
@@ -0,0 +1,16 @@
+/** Long enough for any browser to have picked the blob up; the URL pins it in memory until then. */
+const REVOKE_DELAY_MS = 30_000;
+
+/** Trigger a browser download of `blob` under `filename`. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Browsers start the download after click() returns; revoking straight away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+}
+
+/** Filesystem-safe timestamp for download names. */
+export const fileTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,179 @@
+import { ConnectionStatus } from './dataSource';
+
+/** Normalized events for external tools; amounts in sats, times in ms since epoch. */
+export type BusEvent =
+  | { type: 'tx.added'; txid: string; valueSats: number; feeRate: number; vsize: number }
+  | { type: 'tx.removed'; txids: string[]; reason: 'evicted' | 'replaced' | 'confirmed' }
+  | { type: 'block'; height: number; txCount: number }
+  | { type: 'price'; usd: number }
+  | { type: 'stats'; count: number; vsize: number; totalFeeSats: number }
+  /** `at` is when the step sounds; beats are published up to a lookahead ahead of that. */
+  | { type: 'beat'; step: number; at: number };
+
+export type BusFormat = 'json' | 'osc';
+
+export interface EventBusSettings {
+  enabled: boolean;
+  url: string;
+  /** `json` sends text frames; `osc` sends binary OSC messages for OSC-over-websocket relays. */
+  format: BusFormat;
+}
+
+export const DEFAULT_EVENT_BUS: EventBusSettings = {
+  enabled: false,
+  url: 'ws://localhost:8787',
+  format: 'json'
+};
+
+const RECONNECT_MS = 5000;
+
+type OscArg = number | string;
+
+/** OSC address and arguments for an event, e.g. `/mempool/tx/added "abcd…" 125000 12.5 141`. */
+function toOsc(event: BusEvent): { address: string; args: OscArg[] }[] {
+  switch (event.type) {
+    case 'tx.added':
+      return [{ address: '/mempool/tx/added', args: [event.txid, event.valueSats, event.feeRate, event.vsize] }];
+    case 'tx.removed':
+      // One message per txid keeps every message a fixed shape for OSC consumers
+      return event.txids.map(txid => ({ address: '/mempool/tx/removed', args: [txid, event.reason] }));
+    case 'block':
+      return [{ address: '/mempool/block', args: [event.height, event.txCount] }];
+    case 'price':
+      return [{ address: '/mempool/price', args: [event.usd] }];
+    case 'stats':
+      return [{ address: '/mempool/stats', args: [event.count, event.vsize, event.totalFeeSats] }];
+    case 'beat':
+      return [{ address: '/mempool/beat', args: [event.step, event.at] }];
+  }
+}
+
+const padded = (length: number) => Math.ceil((length + 1) / 4) * 4;
+
+function writeOscString(view: DataView, offset: number, value: string): number {
+  const bytes = new TextEncoder().encode(value);
+  new Uint8Array(view.buffer, offset, bytes.length).set(bytes);
+  return offset + padded(bytes.length);
+}
+
+/**
+ * Encode one OSC 1.0 message. Integers that fit in 32 bits go out as `i`, other
+ * numbers as `f` (float32) or, when too large for float precision, as `d` (float64).
+ */
+export function encodeOscMessage(address: string, args: OscArg[]): ArrayBuffer {
+  const tags = ',' + args.map(arg => {
+    if (typeof arg === 'string') return 's';
+    if (Number.isInteger(arg) && Math.abs(arg) < 2 ** 31) return 'i';
+    return Math.abs(arg) < 2 ** 24 ? 'f' : 'd';
+  }).join('');
+  const encoder = new TextEncoder();
+  let size = padded(encoder.encode(address).length) + padded(tags.length);
+  args.forEach((arg, i) => {
+    const tag = tags[i + 1];
+    size += tag === 's' ? padded(encoder.encode(arg as string).length) : tag === 'd' ? 8 : 4;
+  });
+
+  const view = new DataView(new ArrayBuffer(size));
+  let offset = writeOscString(view, 0, address);
+  offset = writeOscString(view, offset, tags);
+  args.forEach((arg, i) => {
+    const tag = tags[i + 1];
+    if (tag === 's') offset = writeOscString(view, offset, arg as string);
+    else if (tag === 'i') { view.setInt32(offset, arg as number); offset += 4; }
+    else if (tag === 'f') { view.setFloat32(offset, arg as number); offset += 4; }
+    else { view.setFloat64(offset, arg as number); offset += 8; }
+  });
+  return view.buffer;
+}
+
+/**
+ * Publishes app events to a local websocket relay so VJ and streaming tools can
+ * follow along. Events are dropped, not queued, while the relay is unreachable.
+ */
+export class EventBus {
+  private ws: WebSocket | null = null;
+  private current: EventBusSettings = DEFAULT_EVENT_BUS;
+  private reconnectTimeout: number | null = null;
+  private statusValue: ConnectionStatus = 'disconnected';
+  private listeners = new Set<() => void>();
+
+  get settings(): EventBusSettings {
+    return this.current;
+  }
+
+  get status(): ConnectionStatus {
+    return this.statusValue;
+  }
+
+  configure(settings: EventBusSettings) {
+    const reconnect = settings.enabled !== this.current.enabled || settings.url !== this.current.url;
+    this.current = settings;
+    if (!reconnect) return;
+    this.close();
+    if (settings.enabled) this.connect();
+  }
+
+  publish(event: BusEvent) {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    try {
+      if (this.current.format === 'osc') {
+        toOsc(event).forEach(({ address, args }) => this.ws!.send(encodeOscMessage(address, args)));
+      } else {
+        this.ws.send(JSON.stringify({ ...event, t: Date.now() }));
+      }
+    } catch (err) {
+      console.error('Event bus send failed', err);
+    }
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private connect() {
+    this.reconnectTimeout = null;
+    this.setStatus('connecting');
+    try {
+      const ws = new WebSocket(this.current.url);
+      ws.binaryType = 'arraybuffer';
+      ws.onopen = () => this.setStatus('connected');
+      ws.onclose = () => {
+        this.setStatus('disconnected');
+        this.scheduleReconnect();
+      };
+      ws.onerror = () => ws.close();
+      this.ws = ws;
+    } catch (err) {
+      console.error('Event bus connection failed', err);
+      this.setStatus('disconnected');
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.current.enabled || this.reconnectTimeout) return;
+    this.reconnectTimeout = window.setTimeout(() => this.connect(), RECONNECT_MS);
+  }
+
+  private close() {
+    if (this.reconnectTimeout) {
+      window.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.setStatus('disconnected');
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (status === this.statusValue) return;
+    this.statusValue = status;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const eventBus = new EventBus();
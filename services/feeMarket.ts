@@ -0,0 +1,147 @@
+import { Transaction, Block, ProjectedBlock } from '../types';
+
+/** Upper edges (sat/vB) of the histogram buckets; the last bucket is open-ended. */
+export const FEE_BUCKETS = [2, 3, 4, 6, 8, 10, 15, 20, 30, 50, 75, 100, 150, 250, 500, Infinity];
+
+export interface FeeMarketSnapshot {
+  /** Tx counts per FEE_BUCKETS entry over the rolling window. */
+  histogram: number[];
+  percentiles: { p10: number; p25: number; p50: number; p75: number; p90: number };
+  /** Cheapest fee rate projected to make the next block, if known. */
+  nextBlockMinFee: number | null;
+  /** Transactions per second arriving, over the rate window. */
+  arrivalRate: number;
+  /** Virtual bytes per second entering the mempool. */
+  inflowVbps: number;
+  /** Virtual bytes per second blocks are clearing, measured or nominal. */
+  drainVbps: number;
+  /** 0 (idle) to 100 (jammed). */
+  congestion: number;
+  sampleCount: number;
+}
+
+interface Sample {
+  time: number;
+  feeRate: number;
+  vsize: number;
+}
+
+// Fee distribution looks back further than the rates, which should react quickly
+const HISTOGRAM_WINDOW_MS = 10 * 60_000;
+const RATE_WINDOW_MS = 60_000;
+const MAX_SAMPLES = 20_000;
+// 4M weight units every ~10 minutes
+const NOMINAL_DRAIN_VBPS = 1_000_000 / 600;
+const MAX_BLOCKS = 6;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Rolling fee-market metrics built from the events already flowing through App.
+ * Timestamps are wall-clock ms so replays at speed still measure real elapsed time.
+ */
+export class FeeMarketTracker {
+  private samples: Sample[] = [];
+  private blocks: { time: number; vsize: number }[] = [];
+  private projected: ProjectedBlock[] = [];
+  private mempoolVsize = 0;
+
+  recordTransaction(tx: Transaction, now = Date.now()) {
+    this.samples.push({ time: now, feeRate: tx.feeRate, vsize: tx.vsize || 0 });
+    if (this.samples.length > MAX_SAMPLES) this.samples.splice(0, this.samples.length - MAX_SAMPLES);
+  }
+
+  recordBlock(block: Block, now = Date.now()) {
+    this.blocks.push({ time: now, vsize: block.weight > 0 ? block.weight / 4 : block.size });
+    if (this.blocks.length > MAX_BLOCKS) this.blocks.shift();
+  }
+
+  setProjectedBlocks(blocks: ProjectedBlock[]) {
+    this.projected = blocks;
+  }
+
+  setMempoolVsize(vsize: number) {
+    this.mempoolVsize = vsize;
+  }
+
+  reset() {
+    this.samples = [];
+    this.blocks = [];
+    this.projected = [];
+    this.mempoolVsize = 0;
+  }
+
+  snapshot(now = Date.now()): FeeMarketSnapshot {
+    const cutoff = now - HISTOGRAM_WINDOW_MS;
+    const firstFresh = this.samples.findIndex(s => s.time >= cutoff);
+    this.samples = firstFresh === -1 ? [] : this.samples.slice(firstFresh);
+
+    const histogram = FEE_BUCKETS.map(() => 0);
+    const rates: number[] = [];
+    let recentCount = 0;
+    let recentVsize = 0;
+    let earliestRecent = now;
+    this.samples.forEach(sample => {
+      histogram[FEE_BUCKETS.findIndex(edge => sample.feeRate < edge)]++;
+      rates.push(sample.feeRate);
+      if (sample.time >= now - RATE_WINDOW_MS) {
+        recentCount++;
+        recentVsize += sample.vsize;
+        earliestRecent = Math.min(earliestRecent, sample.time);
+      }
+    });
+    rates.sort((a, b) => a - b);
+
+    // Until a full window has elapsed, divide by the time we've actually been listening
+    const rateSeconds = Math.max(1, (now - earliestRecent) / 1000);
+    const arrivalRate = recentCount / rateSeconds;
+    const inflowVbps = recentVsize / rateSeconds;
+
+    const drainVbps = this.measureDrain() ?? NOMINAL_DRAIN_VBPS;
+    const next = this.projected[0];
+    const nextBlockMinFee = next && next.fee_range.length > 0 ? next.fee_range[0] : null;
+
+    return {
+      histogram,
+      percentiles: {
+        p10: percentile(rates, 0.1),
+        p25: percentile(rates, 0.25),
+        p50: percentile(rates, 0.5),
+        p75: percentile(rates, 0.75),
+        p90: percentile(rates, 0.9)
+      },
+      nextBlockMinFee,
+      arrivalRate,
+      inflowVbps,
+      drainVbps,
+      congestion: this.congestionScore(inflowVbps, drainVbps, nextBlockMinFee),
+      sampleCount: this.samples.length
+    };
+  }
+
+  /** Average block space cleared per second across the blocks seen this session. */
+  private measureDrain(): number | null {
+    if (this.blocks.length < 2) return null;
+    const span = (this.blocks[this.blocks.length - 1].time - this.blocks[0].time) / 1000;
+    if (span <= 0) return null;
+    const cleared = this.blocks.slice(1).reduce((sum, b) => sum + b.vsize, 0);
+    return cleared / span;
+  }
+
+  /**
+   * Blend of three pressures, each 0..1: inflow against drain, the price of getting
+   * into the next block, and how many blocks of backlog are waiting.
+   */
+  private congestionScore(inflowVbps: number, drainVbps: number, nextBlockMinFee: number | null): number {
+    const flow = Math.min(1, inflowVbps / (drainVbps * 2));
+    const fee = nextBlockMinFee !== null
+      ? Math.min(1, Math.log10(Math.max(1, nextBlockMinFee)) / Math.log10(200))
+      : 0;
+    const backlogBlocks = this.mempoolVsize > 0 ? this.mempoolVsize / 1_000_000 : this.projected.length;
+    const backlog = Math.min(1, backlogBlocks / 8);
+    return Math.round((flow * 0.35 + fee * 0.4 + backlog * 0.25) * 100);
+  }
+}
+
+export const feeMarket = new FeeMarketTracker();
@@ -0,0 +1,155 @@
+import { Transaction, TxField, Block, MempoolStats, ProjectedBlock, TxReplacement, WatchMatch } from '../types';
+import { DataSourceHandlers } from './dataSource';
+import { dispatchFrame } from './feedParser';
+
+/** Transactions as parallel columns; the numeric buffers move between threads without copying. */
+export interface TxColumns {
+  ids: string[];
+  value: Float64Array; // in Satoshis
+  fee: Float64Array; // in Satoshis
+  vsize: Float64Array;
+  feeRate: Float64Array; // sat/vB
+  /** Bit per `TX_FIELDS` entry the feed didn't carry (see `Transaction.missing`). */
+  missing: Uint8Array;
+}
+
+/** Everything one websocket frame carried, normalized and with repeat transactions dropped. */
+export interface FeedBatch {
+  receivedAt: number;
+  txs: TxColumns;
+  blocks: Block[];
+  stats: MempoolStats[];
+  projectedBlocks: ProjectedBlock[] | null;
+  removed: string[];
+  replaced: TxReplacement[];
+  confirmed: string[];
+  watchMatches: WatchMatch[];
+}
+
+const TX_FIELDS: TxField[] = ['value', 'fee', 'vsize', 'feeRate'];
+
+const toMask = (fields: TxField[] | undefined) =>
+  (fields ?? []).reduce((mask, field) => mask | (1 << TX_FIELDS.indexOf(field)), 0);
+
+const fromMask = (mask: number) => TX_FIELDS.filter((_, bit) => mask & (1 << bit));
+
+/** Txids remembered for deduplication; the oldest tenth is forgotten when full. */
+const MAX_SEEN = 100_000;
+
+const packTransactions = (txs: Transaction[]): TxColumns => {
+  const columns: TxColumns = {
+    ids: new Array(txs.length),
+    value: new Float64Array(txs.length),
+    fee: new Float64Array(txs.length),
+    vsize: new Float64Array(txs.length),
+    feeRate: new Float64Array(txs.length),
+    missing: new Uint8Array(txs.length)
+  };
+  txs.forEach((tx, i) => {
+    columns.ids[i] = tx.id;
+    columns.value[i] = tx.value;
+    columns.fee[i] = tx.fee;
+    columns.vsize[i] = tx.vsize;
+    columns.feeRate[i] = tx.feeRate;
+    columns.missing[i] = toMask(tx.missing);
+  });
+  return columns;
+};
+
+/** Buffers to list as transferables when posting a batch. */
+export const batchTransferables = ({ txs }: FeedBatch): ArrayBuffer[] =>
+  [txs.value.buffer, txs.fee.buffer, txs.vsize.buffer, txs.feeRate.buffer, txs.missing.buffer] as ArrayBuffer[];
+
+/**
+ * Turns raw websocket frames into `FeedBatch`es. Stateful: a txid already
+ * delivered is not delivered again (resends after reconnects, txs that appear
+ * both in `mempool-transactions` and `transactions`) until it leaves the mempool.
+ */
+export class FeedDecoder {
+  private seen = new Set<string>();
+
+  /** Returns null for frames with nothing the app uses (pongs, unknown messages). */
+  decode(raw: string): FeedBatch | null {
+    const txs: Transaction[] = [];
+    const batch: Omit<FeedBatch, 'txs'> = {
+      receivedAt: Date.now(),
+      blocks: [],
+      stats: [],
+      projectedBlocks: null,
+      removed: [],
+      replaced: [],
+      confirmed: [],
+      watchMatches: []
+    };
+
+    dispatchFrame(raw, {
+      onTransaction: tx => {
+        if (this.remember(tx.id)) txs.push(tx);
+      },
+      onBlock: block => batch.blocks.push(block),
+      onStats: stats => batch.stats.push(stats),
+      onProjectedBlocks: projected => { batch.projectedBlocks = projected; },
+      onRemoved: txids => {
+        txids.forEach(txid => this.seen.delete(txid));
+        batch.removed.push(...txids);
+      },
+      onReplaced: replacements => {
+        replacements.forEach(r => {
+          this.seen.delete(r.txid);
+          this.remember(r.by.id);
+        });
+        batch.replaced.push(...replacements);
+      },
+      onConfirmed: txids => {
+        txids.forEach(txid => this.seen.delete(txid));
+        batch.confirmed.push(...txids);
+      },
+      onWatchMatch: match => batch.watchMatches.push(match)
+    });
+
+    const empty = txs.length === 0 && batch.blocks.length === 0 && batch.stats.length === 0 &&
+      !batch.projectedBlocks && batch.removed.length === 0 && batch.replaced.length === 0 &&
+      batch.confirmed.length === 0 && batch.watchMatches.length === 0;
+    return empty ? null : { ...batch, txs: packTransactions(txs) };
+  }
+
+  /** Record a txid; returns false if it was already delivered. */
+  private remember(txid: string): boolean {
+    if (this.seen.has(txid)) return false;
+    this.seen.add(txid);
+    if (this.seen.size > MAX_SEEN) {
+      let drop = MAX_SEEN / 10;
+      for (const old of this.seen) {
+        if (drop-- <= 0) break;
+        this.seen.delete(old);
+      }
+    }
+    return true;
+  }
+}
+
+/** Fan a batch out to the handlers: chain state first, then new txs, then txs leaving the mempool. */
+export function dispatchBatch(batch: FeedBatch, handlers: DataSourceHandlers) {
+  batch.blocks.forEach(block => handlers.onBlock(block));
+  batch.stats.forEach(stats => handlers.onStats(stats));
+  if (batch.projectedBlocks) handlers.onProjectedBlocks?.(batch.projectedBlocks);
+
+  const { txs } = batch;
+  for (let i = 0; i < txs.ids.length; i++) {
+    const tx: Transaction = {
+      id: txs.ids[i],
+      value: txs.value[i],
+      fee: txs.fee[i],
+      vsize: txs.vsize[i],
+      feeRate: txs.feeRate[i],
+      timestamp: batch.receivedAt
+    };
+    if (txs.missing[i]) tx.missing = fromMask(txs.missing[i]);
+    handlers.onTransaction(tx);
+  }
+
+  if (batch.removed.length > 0) handlers.onRemoved?.(batch.removed);
+  if (batch.replaced.length > 0) handlers.onReplaced?.(batch.replaced);
+  if (batch.confirmed.length > 0) handlers.onConfirmed?.(batch.confirmed);
+  batch.watchMatches.forEach(match => handlers.onWatchMatch?.(match));
+}
@@ -0,0 +1,250 @@
+import {
+  Transaction, TxField, Block, BlockField, MempoolStats, ProjectedBlock, TxReplacement, WatchMatch
+} from '../types';
+import { DataSourceHandlers } from './dataSource';
+
+/** A JSON object straight off the wire; decoders check every field they read. */
+type JsonObject = { [key: string]: unknown };
+
+const SATS_PER_BTC = 100_000_000;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A finite, non-negative number, else undefined. */
+const amount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+/** Log a rejected payload and skip it; the rest of the frame is still used. */
+const reject = (kind: string, reason: string, payload: unknown): null => {
+  console.warn(`Mempool.fm: Ignoring malformed ${kind} (${reason})`, payload);
+  return null;
+};
+
+/**
+ * Decode a stripped mempool tx (`value`, `fee`, `vsize`, `rate`) or a full
+ * esplora tx (`vout`, `fee`, `weight`). Values are sats, sizes vbytes.
+ * Fields the payload lacks are zero and listed in `missing`, never guessed.
+ */
+export function decodeTx(raw: unknown, receivedAt: number = Date.now()): Transaction | null {
+  if (!isObject(raw)) return reject('transaction', 'not an object', raw);
+  const id = text(raw.txid) ?? text(raw.id);
+  if (!id) return reject('transaction', 'no txid', raw);
+
+  let value = amount(raw.value);
+  if (value === undefined && Array.isArray(raw.vout)) {
+    value = raw.vout.reduce<number>((sum, out) => sum + ((isObject(out) && amount(out.value)) || 0), 0);
+  }
+  const weight = amount(raw.weight);
+  const vsize = amount(raw.vsize) ?? (weight !== undefined ? weight / 4 : undefined);
+  const fee = amount(raw.fee);
+  // Stripped txs also carry their effective rate (sat/vB), used when fee or size is absent
+  const feeRate = fee !== undefined && vsize ? fee / vsize : amount(raw.rate);
+
+  const missing: TxField[] = [];
+  if (value === undefined) missing.push('value');
+  if (fee === undefined) missing.push('fee');
+  if (vsize === undefined) missing.push('vsize');
+  if (feeRate === undefined) missing.push('feeRate');
+
+  const tx: Transaction = {
+    id,
+    value: value ?? 0,
+    fee: fee ?? 0,
+    vsize: vsize ?? 0,
+    feeRate: feeRate ?? 0,
+    timestamp: receivedAt
+  };
+  if (missing.length > 0) tx.missing = missing;
+  return tx;
+}
+
+/** Decode a block from the websocket or REST API. A block without hash or height is rejected. */
+export function decodeBlock(raw: unknown, receivedAt: number = Date.now()): Block | null {
+  if (!isObject(raw)) return reject('block', 'not an object', raw);
+  const id = text(raw.id) ?? text(raw.hash) ?? text(raw.block_hash);
+  const height = amount(raw.height) ?? amount(raw.block_height);
+  if (!id || height === undefined) return reject('block', 'no hash or height', raw);
+
+  // Unix seconds
+  const timestamp = amount(raw.timestamp) ?? amount(raw.block_time) ?? amount(raw.time);
+  const txCount = amount(raw.tx_count) ?? amount(raw.nTx) ?? amount(raw.txCount);
+  const size = amount(raw.size) ?? amount(raw.blockSize);
+  const weight = amount(raw.weight) ?? amount(raw.blockWeight);
+
+  const missing: BlockField[] = [];
+  if (timestamp === undefined) missing.push('timestamp');
+  if (txCount === undefined) missing.push('tx_count');
+  if (size === undefined) missing.push('size');
+  if (weight === undefined) missing.push('weight');
+
+  const block: Block = {
+    id,
+    height,
+    timestamp: timestamp ?? Math.floor(receivedAt / 1000),
+    tx_count: txCount ?? 0,
+    size: size ?? 0,
+    weight: weight ?? 0
+  };
+  if (missing.length > 0) block.missing = missing;
+  return block;
+}
+
+/** `mempoolInfo` frames mirror bitcoind's getmempoolinfo, so `total_fee` is in BTC. */
+export function decodeMempoolInfo(raw: unknown): MempoolStats | null {
+  if (!isObject(raw)) return reject('mempoolInfo', 'not an object', raw);
+  const count = amount(raw.size);
+  const vsize = amount(raw.bytes);
+  const totalFeeBtc = amount(raw.total_fee);
+  if (count === undefined || vsize === undefined || totalFeeBtc === undefined) {
+    return reject('mempoolInfo', 'size, bytes or total_fee missing', raw);
+  }
+  return { count, vsize, total_fee: Math.round(totalFeeBtc * SATS_PER_BTC) };
+}
+
+/** The REST `/mempool` summary (and `stats` frames, which share its shape): `total_fee` in sats. */
+export function decodeMempoolSummary(raw: unknown): MempoolStats | null {
+  if (!isObject(raw)) return reject('mempool summary', 'not an object', raw);
+  const count = amount(raw.count);
+  const vsize = amount(raw.vsize);
+  const totalFee = amount(raw.total_fee);
+  if (count === undefined || vsize === undefined || totalFee === undefined) {
+    return reject('mempool summary', 'count, vsize or total_fee missing', raw);
+  }
+  return { count, vsize, total_fee: Math.round(totalFee) };
+}
+
+/** Decode a `mempool-blocks` array, next block first. One malformed entry rejects the list. */
+export function decodeProjectedBlocks(raw: unknown): ProjectedBlock[] | null {
+  if (!Array.isArray(raw)) return reject('mempool-blocks', 'not an array', raw);
+  const blocks: ProjectedBlock[] = [];
+  for (const block of raw) {
+    if (!isObject(block)) return reject('mempool-blocks', 'entry is not an object', raw);
+    const vsize = amount(block.blockVSize);
+    const txCount = amount(block.nTx);
+    const totalFees = amount(block.totalFees);
+    const medianFee = amount(block.medianFee);
+    if (vsize === undefined || txCount === undefined || totalFees === undefined || medianFee === undefined) {
+      return reject('mempool-blocks', 'entry missing blockVSize, nTx, totalFees or medianFee', raw);
+    }
+    const feeRange = Array.isArray(block.feeRange)
+      ? block.feeRange.filter((rate): rate is number => amount(rate) !== undefined)
+      : [];
+    blocks.push({ vsize, tx_count: txCount, total_fees: totalFees, median_fee: medianFee, fee_range: feeRange });
+  }
+  return blocks;
+}
+
+/** `removed`/`mined` lists carry either bare txids or stripped tx objects. */
+function decodeTxids(items: unknown[]): string[] {
+  return items
+    .map(item => (isObject(item) ? text(item.txid) : text(item)))
+    .filter((txid): txid is string => txid !== undefined);
+}
+
+/** `replaced` entries are `{ replaced: txid, by: tx }`; older backends used `{ txid, tx }`. */
+function decodeReplacements(items: unknown[], receivedAt: number): TxReplacement[] {
+  return items
+    .map(item => {
+      if (!isObject(item)) return null;
+      const txid = text(item.replaced) ?? text(item.txid);
+      const by = decodeTx(item.by ?? item.tx, receivedAt);
+      return txid && by ? { txid, by } : null;
+    })
+    .filter((r): r is TxReplacement => r !== null);
+}
+
+/** Expand `multi-address-transactions` ({ [address]: { mempool, confirmed } }) into matches. */
+function decodeAddressMatches(raw: unknown, receivedAt: number): WatchMatch[] {
+  const matches: WatchMatch[] = [];
+  if (!isObject(raw)) return matches;
+  Object.entries(raw).forEach(([address, activity]) => {
+    if (!isObject(activity)) return;
+    (Array.isArray(activity.mempool) ? activity.mempool : []).forEach(item => {
+      const tx = decodeTx(item, receivedAt);
+      if (tx) matches.push({ key: address, txid: tx.id, tx, confirmed: false });
+    });
+    (Array.isArray(activity.confirmed) ? activity.confirmed : []).forEach(item => {
+      const tx = decodeTx(item, receivedAt);
+      if (!tx) return;
+      const status = isObject(item) && isObject(item.status) ? item.status : {};
+      matches.push({ key: address, txid: tx.id, tx, confirmed: true, blockHeight: amount(status.block_height) });
+    });
+  });
+  return matches;
+}
+
+/** `txConfirmed` carries the txid, or the tx itself on some backends. */
+function decodeTxConfirmed(raw: unknown): WatchMatch | null {
+  const txid = isObject(raw) ? text(raw.txid) : text(raw);
+  if (!txid) return reject('txConfirmed', 'no txid', raw);
+  const status = isObject(raw) && isObject(raw.status) ? raw.status : {};
+  return { key: txid, txid, confirmed: true, blockHeight: amount(status.block_height) };
+}
+
+/**
+ * Parse one raw mempool.space websocket frame and fan it out to the handlers.
+ * Shared by the live socket and the replay source so both behave identically.
+ */
+export function dispatchFrame(raw: string, handlers: DataSourceHandlers) {
+  const message: unknown = JSON.parse(raw);
+  if (!isObject(message)) return;
+  const receivedAt = Date.now();
+  const emitTx = (item: unknown) => {
+    const tx = decodeTx(item, receivedAt);
+    if (tx) handlers.onTransaction(tx);
+  };
+
+  if (message['block']) {
+    const block = decodeBlock(message['block'], receivedAt);
+    if (block) handlers.onBlock(block);
+  }
+
+  if (message['stats']) {
+    const stats = decodeMempoolSummary(message['stats']);
+    if (stats) handlers.onStats(stats);
+  }
+  if (message['mempoolInfo']) {
+    const stats = decodeMempoolInfo(message['mempoolInfo']);
+    if (stats) handlers.onStats(stats);
+  }
+
+  if (message['mempool-blocks']) {
+    const projected = decodeProjectedBlocks(message['mempool-blocks']);
+    if (projected) handlers.onProjectedBlocks?.(projected);
+  }
+
+  // Live mempool transactions: mempool-transactions.added (array of stripped tx objects)
+  const mempoolTx = message['mempool-transactions'];
+  if (isObject(mempoolTx)) {
+    if (Array.isArray(mempoolTx.added)) mempoolTx.added.forEach(emitTx);
+    if (Array.isArray(mempoolTx.removed) && mempoolTx.removed.length > 0) {
+      handlers.onRemoved?.(decodeTxids(mempoolTx.removed));
+    }
+    if (Array.isArray(mempoolTx.replaced) && mempoolTx.replaced.length > 0) {
+      handlers.onReplaced?.(decodeReplacements(mempoolTx.replaced, receivedAt));
+    }
+    if (Array.isArray(mempoolTx.mined) && mempoolTx.mined.length > 0) {
+      handlers.onConfirmed?.(decodeTxids(mempoolTx.mined));
+    }
+  }
+
+  if (message['tx']) emitTx(message['tx']);
+
+  if (Array.isArray(message['transactions'])) message['transactions'].forEach(emitTx);
+
+  if (message['multi-address-transactions']) {
+    decodeAddressMatches(message['multi-address-transactions'], receivedAt)
+      .forEach(match => handlers.onWatchMatch?.(match));
+  }
+
+  if (message['txConfirmed']) {
+    const match = decodeTxConfirmed(message['txConfirmed']);
+    if (match) handlers.onWatchMatch?.(match);
+  }
+
+  if (typeof message.txid === 'string' && message.value !== undefined) emitTx(message);
+}
@@ -0,0 +1,60 @@
+import { ConnectionStatus, DataSourceHandlers } from './dataSource';
+import { FeedBatch, batchTransferables } from './feedBatch';
+import { MempoolSocket } from './mempoolSocket';
+
+/** Page → worker. */
+export type FeedWorkerRequest =
+  | { type: 'connect'; url: string }
+  | { type: 'tracking'; addresses: string[]; txids: string[] }
+  | { type: 'forwardRaw'; enabled: boolean }
+  | { type: 'disconnect' };
+
+/** Worker → page. Raw frames are only sent while the page asks for them (session recording). */
+export type FeedWorkerReply =
+  | { type: 'status'; status: ConnectionStatus }
+  | { type: 'raw'; raw: string }
+  | { type: 'batch'; batch: FeedBatch };
+
+// Typed against the DOM lib; postMessage and message events look the same in a dedicated worker
+const reply = (message: FeedWorkerReply, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+let socket: MempoolSocket | null = null;
+let tracking = { addresses: [] as string[], txids: [] as string[] };
+let forwardRaw = false;
+
+const connect = (url: string) => {
+  socket?.disconnect();
+  // The socket only calls onStatus and onRawFrame itself; everything else arrives as batches
+  const handlers: DataSourceHandlers = {
+    onTransaction: () => {},
+    onBlock: () => {},
+    onStats: () => {},
+    onStatus: status => reply({ type: 'status', status }),
+    onRawFrame: raw => reply({ type: 'raw', raw })
+  };
+  socket = new MempoolSocket(handlers, url, batch => reply({ type: 'batch', batch }, batchTransferables(batch)));
+  socket.setTracking(tracking.addresses, tracking.txids);
+  socket.setForwardRaw(forwardRaw);
+  socket.connect();
+};
+
+self.addEventListener('message', (e: MessageEvent<FeedWorkerRequest>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'connect':
+      connect(message.url);
+      break;
+    case 'tracking':
+      tracking = { addresses: message.addresses, txids: message.txids };
+      socket?.setTracking(message.addresses, message.txids);
+      break;
+    case 'forwardRaw':
+      forwardRaw = message.enabled;
+      socket?.setForwardRaw(message.enabled);
+      break;
+    case 'disconnect':
+      socket?.disconnect();
+      socket = null;
+      break;
+  }
+});
@@ -0,0 +1,116 @@
+import { ProjectedBlock } from '../types';
+import { AudioEngine, audioEngine, moodInterval } from './audioEngine';
+
+/** A chord as semitone offsets from the pack root; the first entry is the bass root. */
+type Chord = number[];
+
+/**
+ * Progressions by tension. Calm mempools get plain triads, a filling next block
+ * adds sevenths, and fee spikes lean on dominants and diminished colour.
+ */
+const PROGRESSIONS: Chord[][] = [
+  // I - IV - I - V
+  [[0, 4, 7], [5, 9, 12], [0, 4, 7], [7, 11, 14]],
+  // Imaj7 - vi7 - ii7 - V7
+  [[0, 4, 7, 11], [9, 12, 16, 19], [2, 5, 9, 12], [7, 11, 14, 17]],
+  // V7 - bVI7 - V7b9 - vii°7
+  [[7, 11, 14, 17], [8, 12, 15, 18], [7, 11, 14, 20], [11, 14, 17, 20]]
+];
+
+/** Bass steps per bar as the backlog deepens: downbeat, halves, quarters, eighths. */
+const BASS_PATTERNS: number[][] = [
+  [0],
+  [0, 8],
+  [0, 4, 8, 12],
+  [0, 2, 4, 6, 8, 10, 12, 14]
+];
+
+/** Walk shape over a chord: root, fifth-ish, octave, chord third. */
+const WALK = [0, 2, 'octave', 1] as const;
+
+const DEFAULT_BAR_SECONDS = 3.2;
+
+const semitones = (root: number, offset: number) => root * Math.pow(2, offset / 12);
+
+/**
+ * Continuous chord/bass layer whose tension follows the next projected block's
+ * median fee and whose density follows how many blocks deep the backlog is.
+ * Driven step by step from the Sequencer so it shares the audio clock.
+ */
+export class HarmonyLayer {
+  private engine: AudioEngine;
+  private pressure = 0;
+  private depth = 0;
+  private bar = 0;
+  private barStart: number | null = null;
+  private barLength = DEFAULT_BAR_SECONDS;
+  private chord: Chord = PROGRESSIONS[0][0];
+  private walkIndex = 0;
+  enabled = true;
+
+  constructor(engine: AudioEngine) {
+    this.engine = engine;
+  }
+
+  /** 0..1 fee pressure of the next block, on a log scale of 1 to 300 sat/vB. */
+  get tension() {
+    return this.pressure;
+  }
+
+  setProjectedBlocks(blocks: ProjectedBlock[]) {
+    const next = blocks[0];
+    const medianFee = next ? Math.max(1, next.median_fee) : 1;
+    this.pressure = Math.min(1, Math.log10(medianFee) / Math.log10(300));
+    this.depth = blocks.length;
+  }
+
+  /** Call for every sequencer step with its scheduled time. */
+  onStep(step: number, time: number) {
+    if (step === 0) this.startBar(time);
+    if (!this.enabled || this.depth === 0) return;
+
+    // Key and mode follow the market mood, like the rest of the engine's notes
+    const root = this.engine.scale[0];
+    const { minor } = this.engine.marketMood;
+    if (step === 0) {
+      this.chord.forEach(offset => this.engine.playHarmony('pad', semitones(root, moodInterval(offset, minor)), time, this.barLength));
+    }
+
+    const pattern = BASS_PATTERNS[this.densityLevel()];
+    if (pattern.includes(step)) {
+      this.engine.playHarmony('bass', semitones(root / 2, moodInterval(this.nextBassOffset(), minor)), time);
+    }
+  }
+
+  private startBar(time: number) {
+    if (this.barStart !== null) {
+      const measured = time - this.barStart;
+      // Ignore clock resyncs; keep the last sane bar length
+      if (measured > 0.5 && measured < 10) this.barLength = measured;
+    }
+    this.barStart = time;
+
+    const tier = this.pressure < 0.33 ? 0 : this.pressure < 0.66 ? 1 : 2;
+    const progression = PROGRESSIONS[tier];
+    this.chord = progression[this.bar % progression.length];
+    this.bar++;
+    this.walkIndex = 0;
+  }
+
+  private densityLevel() {
+    if (this.depth <= 1) return 0;
+    if (this.depth <= 3) return 1;
+    if (this.depth <= 6) return 2;
+    return 3;
+  }
+
+  private nextBassOffset() {
+    const move = WALK[this.walkIndex % WALK.length];
+    this.walkIndex++;
+    const root = this.chord[0] % 12;
+    if (move === 'octave') return root + 12;
+    return root + (this.chord[move] - this.chord[0]);
+  }
+}
+
+export const harmonyLayer = new HarmonyLayer(audioEngine);
@@ -0,0 +1,204 @@
+import { Block } from '../types';
+import { NetworkId } from './network';
+
+/** One point of the mempool time series. */
+export interface HistorySample {
+  time: number; // ms since epoch
+  network: NetworkId;
+  count: number;
+  vsize: number;
+  totalFee: number; // in Satoshis
+  arrivalRate: number; // tx/s
+  btcPrice: number;
+}
+
+export interface HistoryBlock {
+  time: number;
+  network: NetworkId;
+  height: number;
+  tx_count: number;
+}
+
+export type HistoryRange = 'hour' | 'day' | 'week';
+
+/**
+ * Resolution tiers. Raw samples are rolled up into coarser stores as they age,
+ * so a week of history stays a few thousand rows.
+ */
+const TIERS = [
+  { store: 'raw', bucketMs: 0, retentionMs: 2 * 3600_000 },
+  { store: 'minute', bucketMs: 60_000, retentionMs: 2 * 86400_000 },
+  { store: 'tenMinute', bucketMs: 600_000, retentionMs: 8 * 86400_000 }
+] as const;
+
+type TierStore = typeof TIERS[number]['store'];
+
+const RANGE_SOURCES: Record<HistoryRange, { store: TierStore; spanMs: number }> = {
+  hour: { store: 'raw', spanMs: 3600_000 },
+  day: { store: 'minute', spanMs: 86400_000 },
+  week: { store: 'tenMinute', spanMs: 7 * 86400_000 }
+};
+
+const DB_NAME = 'mempool-radio-history';
+const DB_VERSION = 1;
+const BLOCK_STORE = 'blocks';
+const BLOCK_RETENTION_MS = 8 * 86400_000;
+const PRUNE_INTERVAL_MS = 10 * 60_000;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function averageSamples(samples: HistorySample[], time: number): HistorySample {
+  const mean = (pick: (s: HistorySample) => number) =>
+    samples.reduce((sum, s) => sum + pick(s), 0) / samples.length;
+  return {
+    time,
+    network: samples[0].network,
+    count: Math.round(mean(s => s.count)),
+    vsize: Math.round(mean(s => s.vsize)),
+    totalFee: Math.round(mean(s => s.totalFee)),
+    arrivalRate: mean(s => s.arrivalRate),
+    btcPrice: mean(s => s.btcPrice)
+  };
+}
+
+/**
+ * Persistent mempool time series in IndexedDB: samples are written raw and
+ * downsampled into minute and ten-minute tiers, each with its own retention.
+ */
+export class HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  /** Samples waiting for their bucket to close, per downsampled tier. */
+  private pending: Partial<Record<TierStore, { bucket: number; samples: HistorySample[] }>> = {};
+  private lastPrune = 0;
+  /** Settles once the open buckets cut short by a reload are refilled. */
+  private restored: Promise<void> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          TIERS.forEach(({ store }) => {
+            if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: ['network', 'time'] });
+          });
+          if (!db.objectStoreNames.contains(BLOCK_STORE)) {
+            db.createObjectStore(BLOCK_STORE, { keyPath: ['network', 'time'] });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if IndexedDB was unavailable (private mode, quota)
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  async record(sample: HistorySample) {
+    const db = await this.open();
+    await (this.restored ??= this.restoreOpenBuckets(db, sample));
+    const writes: { store: TierStore; sample: HistorySample }[] = [{ store: 'raw', sample }];
+
+    TIERS.forEach(({ store, bucketMs }) => {
+      if (bucketMs === 0) return;
+      const bucket = Math.floor(sample.time / bucketMs) * bucketMs;
+      const current = this.pending[store];
+      if (current && (current.bucket !== bucket || current.samples[0].network !== sample.network)) {
+        writes.push({ store, sample: averageSamples(current.samples, current.bucket) });
+        this.pending[store] = undefined;
+      }
+      const open = this.pending[store] ?? { bucket, samples: [] };
+      open.samples.push(sample);
+      this.pending[store] = open;
+    });
+
+    const tx = db.transaction(writes.map(w => w.store), 'readwrite');
+    writes.forEach(({ store, sample: row }) => tx.objectStore(store).put(row));
+    await transactionDone(tx);
+
+    if (sample.time - this.lastPrune > PRUNE_INTERVAL_MS) {
+      this.lastPrune = sample.time;
+      await this.prune(sample.time);
+    }
+  }
+
+  async recordBlock(block: Block, network: NetworkId, time = Date.now()) {
+    const db = await this.open();
+    const row: HistoryBlock = { time, network, height: block.height, tx_count: block.tx_count };
+    const tx = db.transaction(BLOCK_STORE, 'readwrite');
+    tx.objectStore(BLOCK_STORE).put(row);
+    await transactionDone(tx);
+  }
+
+  async getSeries(range: HistoryRange, network: NetworkId, now = Date.now()) {
+    const db = await this.open();
+    const { store, spanMs } = RANGE_SOURCES[range];
+    const bounds = IDBKeyRange.bound([network, now - spanMs], [network, now]);
+    const tx = db.transaction([store, BLOCK_STORE], 'readonly');
+    const [samples, blocks] = await Promise.all([
+      promisify(tx.objectStore(store).getAll(bounds) as IDBRequest<HistorySample[]>),
+      promisify(tx.objectStore(BLOCK_STORE).getAll(bounds) as IDBRequest<HistoryBlock[]>)
+    ]);
+    // Include the still-open bucket so the newest stretch of a downsampled chart isn't empty
+    const open = this.pending[store];
+    if (open && open.samples[0].network === network) samples.push(averageSamples(open.samples, open.bucket));
+    return { samples, blocks };
+  }
+
+  /**
+   * Open buckets only live in memory, so on the first sample after a reload
+   * refill them from the raw rows already written inside them.
+   */
+  private async restoreOpenBuckets(db: IDBDatabase, sample: HistorySample) {
+    const tiers = TIERS.filter(t => t.bucketMs > 0);
+    const bucketOf = (bucketMs: number) => Math.floor(sample.time / bucketMs) * bucketMs;
+    const since = Math.min(...tiers.map(t => bucketOf(t.bucketMs)));
+    try {
+      const bounds = IDBKeyRange.bound([sample.network, since], [sample.network, sample.time], false, true);
+      const tx = db.transaction('raw', 'readonly');
+      const rows = await promisify(tx.objectStore('raw').getAll(bounds) as IDBRequest<HistorySample[]>);
+      tiers.forEach(({ store, bucketMs }) => {
+        const bucket = bucketOf(bucketMs);
+        const samples = rows.filter(row => row.time >= bucket);
+        if (samples.length > 0) this.pending[store] = { bucket, samples };
+      });
+    } catch (err) {
+      console.error('Failed to restore open history buckets', err);
+    }
+  }
+
+  private async prune(now: number) {
+    const db = await this.open();
+    const stores = [...TIERS.map(t => t.store), BLOCK_STORE];
+    const tx = db.transaction(stores, 'readwrite');
+    const retention: Record<string, number> = { [BLOCK_STORE]: BLOCK_RETENTION_MS };
+    TIERS.forEach(({ store, retentionMs }) => { retention[store] = retentionMs; });
+
+    stores.forEach(store => {
+      const cutoff = now - retention[store];
+      // Keys are [network, time]; walk every row and drop the stale ones
+      const request = tx.objectStore(store).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if ((cursor.value as { time: number }).time < cutoff) cursor.delete();
+        cursor.continue();
+      };
+    });
+    await transactionDone(tx);
+  }
+}
+
+export const historyStore = new HistoryStore();
@@ -0,0 +1,135 @@
+import { VoiceId } from './soundPacks';
+import { NoteSink } from './audioEngine';
+
+export interface MidiSettings {
+  /** Selected output port; null keeps MIDI off. */
+  outputId: string | null;
+  /** Silence the built-in synth for notes that go out over MIDI. */
+  replaceSynth: boolean;
+  /** MIDI channel (1-16) per instrument tier. */
+  channels: Record<VoiceId, number>;
+  /** What a new block sends: a control change or a program change. */
+  block: { channel: number; kind: 'cc' | 'program'; number: number; value: number };
+}
+
+export const DEFAULT_MIDI: MidiSettings = {
+  outputId: null,
+  replaceSynth: false,
+  channels: { pluck: 1, marimba: 2, steelDrum: 3, whale: 4, skank: 5 },
+  block: { channel: 16, kind: 'cc', number: 20, value: 127 }
+};
+
+export interface MidiPort {
+  id: string;
+  name: string;
+}
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const PROGRAM_CHANGE = 0xc0;
+
+const clampByte = (value: number) => Math.max(0, Math.min(127, Math.round(value)));
+const status = (kind: number, channel: number) => kind | (Math.max(1, Math.min(16, channel)) - 1);
+
+/** Nearest MIDI note number for a frequency in Hz (A4 = 440 Hz = 69). */
+export const frequencyToNote = (freq: number) => clampByte(69 + 12 * Math.log2(freq / 440));
+
+/**
+ * Sends the engine's transaction and block notes to a Web MIDI output.
+ * `requestAccess` defaults to `navigator.requestMIDIAccess` and can be swapped
+ * for a mock that resolves to a fake MIDIAccess.
+ */
+export class MidiOutput implements NoteSink {
+  private access: MIDIAccess | null = null;
+  private current: MidiSettings;
+  private requestAccess: () => Promise<MIDIAccess>;
+  private listeners = new Set<() => void>();
+
+  constructor(
+    requestAccess: () => Promise<MIDIAccess> = () => navigator.requestMIDIAccess(),
+    settings: MidiSettings = DEFAULT_MIDI
+  ) {
+    this.requestAccess = requestAccess;
+    this.current = settings;
+  }
+
+  get isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+  }
+
+  get isConnected(): boolean {
+    return this.access !== null;
+  }
+
+  get settings(): MidiSettings {
+    return this.current;
+  }
+
+  get outputs(): MidiPort[] {
+    if (!this.access) return [];
+    return Array.from(this.access.outputs.values()).map(port => ({ id: port.id, name: port.name ?? port.id }));
+  }
+
+  /** Ask for MIDI access; browsers show a permission prompt the first time. */
+  async connect() {
+    if (this.access) return;
+    this.access = await this.requestAccess();
+    // Ports come and go as devices are plugged in
+    this.access.onstatechange = () => this.emit();
+    this.emit();
+  }
+
+  update(patch: Partial<MidiSettings>) {
+    if (patch.outputId === null || (patch.outputId && patch.outputId !== this.current.outputId)) this.allNotesOff();
+    this.current = { ...this.current, ...patch };
+    this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  note(voice: VoiceId, freq: number, velocity: number, delay: number, duration: number) {
+    const channel = this.current.channels[voice];
+    const note = frequencyToNote(freq);
+    const onAt = performance.now() + delay * 1000;
+    this.send([status(NOTE_ON, channel), note, Math.max(1, clampByte(velocity * 127))], onAt);
+    this.send([status(NOTE_OFF, channel), note, 0], onAt + duration * 1000);
+  }
+
+  block(delay: number) {
+    const { channel, kind, number, value } = this.current.block;
+    const at = performance.now() + delay * 1000;
+    if (kind === 'program') this.send([status(PROGRAM_CHANGE, channel), clampByte(number)], at);
+    else this.send([status(CONTROL_CHANGE, channel), clampByte(number), clampByte(value)], at);
+  }
+
+  private get port(): MIDIOutput | null {
+    if (!this.access || !this.current.outputId) return null;
+    return this.access.outputs.get(this.current.outputId) ?? null;
+  }
+
+  private send(data: number[], timestamp: number) {
+    const port = this.port;
+    if (!port) return;
+    try {
+      port.send(data, timestamp);
+    } catch (err) {
+      console.error('MIDI send failed', err);
+    }
+  }
+
+  /** CC 123 on every mapped channel so a port switch doesn't leave notes hanging. */
+  private allNotesOff() {
+    const channels = new Set([...Object.values(this.current.channels), this.current.block.channel]);
+    channels.forEach(channel => this.send([status(CONTROL_CHANGE, channel), 123, 0], performance.now()));
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const midiOutput = new MidiOutput();
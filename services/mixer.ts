@@ -0,0 +1,162 @@
+import { VoiceId } from './soundPacks';
+
+/** One strip per voice family, plus the harmony layer. */
+export type ChannelId = VoiceId | 'shaker' | 'chime' | 'harmony' | 'cues' | 'watch';
+
+export const CHANNELS: { id: ChannelId; label: string }[] = [
+  { id: 'pluck', label: 'Pluck' },
+  { id: 'marimba', label: 'Marimba' },
+  { id: 'steelDrum', label: 'Steel drum' },
+  { id: 'whale', label: 'Whale' },
+  { id: 'skank', label: 'Organ skank' },
+  { id: 'shaker', label: 'Shaker' },
+  { id: 'chime', label: 'Chime' },
+  { id: 'harmony', label: 'Harmony' },
+  { id: 'cues', label: 'Tx cues' },
+  { id: 'watch', label: 'Watchlist' }
+];
+
+export interface ChannelSettings {
+  gain: number;
+  pan: number;
+  mute: boolean;
+  solo: boolean;
+  reverbSend: number;
+  delaySend: number;
+}
+
+export type MixerSettings = Record<ChannelId, ChannelSettings>;
+
+const channel = (pan: number, reverbSend = 0, delaySend = 0): ChannelSettings =>
+  ({ gain: 1, pan, mute: false, solo: false, reverbSend, delaySend });
+
+export const DEFAULT_MIXER: MixerSettings = {
+  pluck: channel(-0.2, 0, 0.15),
+  marimba: channel(0.2, 0.1),
+  steelDrum: channel(0.1),
+  whale: channel(0, 0.2),
+  skank: channel(-0.3, 0, 0.25),
+  shaker: channel(0.4),
+  chime: channel(0, 0.3),
+  harmony: channel(0, 0.2),
+  cues: channel(0.3, 0.2, 0.2),
+  watch: channel(0, 0.3, 0.3)
+};
+
+interface ChannelStrip {
+  input: GainNode;
+  panner: StereoPannerNode;
+  fader: GainNode;
+  reverbSend: GainNode;
+  delaySend: GainNode;
+  /** Voice-level sends (from sound packs) enter here so mute/solo silences them too. */
+  reverbTap: GainNode;
+  delayTap: GainNode;
+}
+
+/** Fill in missing channels or fields from defaults, e.g. for settings saved by an older build. */
+export function normalizeMixerSettings(saved: unknown): MixerSettings {
+  if (!saved || typeof saved !== 'object') return DEFAULT_MIXER;
+  const merged = { ...DEFAULT_MIXER };
+  (Object.keys(DEFAULT_MIXER) as ChannelId[]).forEach(id => {
+    merged[id] = { ...DEFAULT_MIXER[id], ...(saved as Partial<MixerSettings>)[id] };
+  });
+  return merged;
+}
+
+/**
+ * Channel strips between the voices and the master bus:
+ * input -> pan -> fader (gain, mute/solo) -> master, with post-fader reverb/delay sends.
+ */
+export class Mixer {
+  private strips: Partial<Record<ChannelId, ChannelStrip>> = {};
+  private ctx: BaseAudioContext | null = null;
+  private current: MixerSettings;
+
+  constructor(options: { settings?: MixerSettings } = {}) {
+    this.current = options.settings ?? DEFAULT_MIXER;
+  }
+
+  get settings(): MixerSettings {
+    return this.current;
+  }
+
+  attach(ctx: BaseAudioContext, master: AudioNode, reverb: AudioNode, delay: AudioNode) {
+    this.ctx = ctx;
+    this.strips = {};
+    CHANNELS.forEach(({ id }) => {
+      const strip: ChannelStrip = {
+        input: ctx.createGain(),
+        panner: ctx.createStereoPanner(),
+        fader: ctx.createGain(),
+        reverbSend: ctx.createGain(),
+        delaySend: ctx.createGain(),
+        reverbTap: ctx.createGain(),
+        delayTap: ctx.createGain()
+      };
+      strip.input.connect(strip.panner);
+      strip.panner.connect(strip.fader);
+      strip.fader.connect(master);
+      strip.fader.connect(strip.reverbSend);
+      strip.reverbSend.connect(reverb);
+      strip.fader.connect(strip.delaySend);
+      strip.delaySend.connect(delay);
+      strip.reverbTap.connect(reverb);
+      strip.delayTap.connect(delay);
+      this.strips[id] = strip;
+    });
+    this.applyAll();
+  }
+
+  /** Where a voice on `id` should connect its dry output. */
+  input(id: ChannelId): AudioNode | null {
+    return this.strips[id]?.input ?? null;
+  }
+
+  /** Entry points for a voice's own effect sends on `id`. */
+  taps(id: ChannelId): { reverb: AudioNode; delay: AudioNode } | null {
+    const strip = this.strips[id];
+    return strip ? { reverb: strip.reverbTap, delay: strip.delayTap } : null;
+  }
+
+  setChannel(id: ChannelId, patch: Partial<ChannelSettings>) {
+    this.current = { ...this.current, [id]: { ...this.current[id], ...patch } };
+    // Solo on one strip changes what every other strip should output
+    if (patch.solo !== undefined || patch.mute !== undefined) this.applyAll();
+    else this.apply(id);
+  }
+
+  setSettings(settings: MixerSettings) {
+    this.current = settings;
+    this.applyAll();
+  }
+
+  reset() {
+    this.current = DEFAULT_MIXER;
+    this.applyAll();
+  }
+
+  private isAudible(id: ChannelId) {
+    const anySolo = CHANNELS.some(c => this.current[c.id].solo);
+    const settings = this.current[id];
+    return !settings.mute && (!anySolo || settings.solo);
+  }
+
+  private applyAll() {
+    CHANNELS.forEach(({ id }) => this.apply(id));
+  }
+
+  private apply(id: ChannelId) {
+    const strip = this.strips[id];
+    if (!strip || !this.ctx) return;
+    const settings = this.current[id];
+    const now = this.ctx.currentTime;
+    const level = this.isAudible(id) ? settings.gain : 0;
+    strip.fader.gain.setTargetAtTime(level, now, 0.02);
+    strip.panner.pan.setTargetAtTime(settings.pan, now, 0.02);
+    strip.reverbSend.gain.setTargetAtTime(settings.reverbSend, now, 0.02);
+    strip.delaySend.gain.setTargetAtTime(settings.delaySend, now, 0.02);
+    strip.reverbTap.gain.setTargetAtTime(level, now, 0.02);
+    strip.delayTap.gain.setTargetAtTime(level, now, 0.02);
+  }
+}
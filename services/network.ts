@@ -0,0 +1,62 @@
+export type NetworkId = 'mainnet' | 'testnet4' | 'signet';
+
+export interface NetworkConfig {
+  network: NetworkId;
+  /** Root of a mempool instance, e.g. https://mempool.space or a self-hosted host. */
+  baseUrl: string;
+}
+
+interface NetworkInfo {
+  label: string;
+  /** Path prefix mempool uses for this network on a shared host. */
+  pathPrefix: string;
+  /** Visualizer tint as an RGB triple; null leaves the mainnet palette untouched. */
+  tint: [number, number, number] | null;
+}
+
+export const NETWORKS: Record<NetworkId, NetworkInfo> = {
+  mainnet: { label: 'Mainnet', pathPrefix: '', tint: null },
+  testnet4: { label: 'Testnet4', pathPrefix: '/testnet4', tint: [20, 160, 220] },
+  signet: { label: 'Signet', pathPrefix: '/signet', tint: [170, 60, 220] }
+};
+
+export const DEFAULT_BASE_URL = 'https://mempool.space';
+
+export const DEFAULT_NETWORK: NetworkConfig = { network: 'mainnet', baseUrl: DEFAULT_BASE_URL };
+
+export const isNetworkId = (value: unknown): value is NetworkId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(NETWORKS, value);
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** Accept only absolute http(s) URLs as a backend; returns the trimmed URL or null. */
+export function parseBaseUrl(input: string): string | null {
+  try {
+    const url = new URL(input.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return trimSlash(url.toString());
+  } catch {
+    return null;
+  }
+}
+
+/** REST root for the configured network, e.g. https://mempool.space/signet/api */
+export function getApiUrl(config: NetworkConfig): string {
+  return `${trimSlash(config.baseUrl)}${NETWORKS[config.network].pathPrefix}/api`;
+}
+
+/** Websocket endpoint for the configured network, e.g. wss://mempool.space/signet/api/v1/ws */
+export function getWebSocketUrl(config: NetworkConfig): string {
+  const base = trimSlash(config.baseUrl).replace(/^http/, 'ws');
+  return `${base}${NETWORKS[config.network].pathPrefix}/api/v1/ws`;
+}
+
+/** Mirror the active network into the URL so the current tab can be shared as-is. */
+export function writeNetworkToUrl(config: NetworkConfig) {
+  const url = new URL(window.location.href);
+  if (config.network === DEFAULT_NETWORK.network) url.searchParams.delete('network');
+  else url.searchParams.set('network', config.network);
+  if (config.baseUrl === DEFAULT_NETWORK.baseUrl) url.searchParams.delete('backend');
+  else url.searchParams.set('backend', config.baseUrl);
+  window.history.replaceState(null, '', url);
+}
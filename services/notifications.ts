@@ -0,0 +1,15 @@
+/** Ask once, from a user gesture, so later notifications can fire in the background. */
+export async function requestNotificationPermission() {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch {
+    // Older Safari only supports the callback form; notifications just stay off
+  }
+}
+
+/** Show a browser notification if the user allowed it; a silent no-op otherwise. */
+export function notify(title: string, body: string, tag?: string) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification(title, { body, tag });
+}
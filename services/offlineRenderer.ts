@@ -0,0 +1,174 @@
+import { Transaction, Block, ProjectedBlock, TxReplacement } from '../types';
+import { AudioEngine, MarketMood } from './audioEngine';
+import { Sequencer } from './sequencer';
+import { HarmonyLayer } from './harmonyLayer';
+import { SoundPack } from './soundPacks';
+import { Mixer, MixerSettings } from './mixer';
+import { dispatchFrame } from './feedParser';
+import { parseReplayFile } from './replaySource';
+import { createRandom } from './random';
+import { encodeWav } from './wavEncoder';
+
+export interface RenderOptions {
+  pack: SoundPack;
+  /** Channel settings to render with, typically the live mixer's. */
+  mixer?: MixerSettings;
+  /** Whether the projected-block harmony plays, typically the live toggle. Defaults to on. */
+  harmony?: boolean;
+  /**
+   * Key, mode and effects depth, typically the live mood at export time. Held for the
+   * whole render: captures carry no price history to move it along.
+   */
+  mood?: MarketMood;
+  /** Render from this block's arrival up to the next block (a "block's worth"). */
+  fromBlockHeight?: number;
+  /** Hard cap on rendered stream length, before the reverb tail. */
+  maxSeconds?: number;
+  sampleRate?: number;
+  /** Same seed + same capture = same samples, for golden-audio fixtures. */
+  seed?: number;
+}
+
+type TimelineEvent =
+  | { time: number; kind: 'tx'; tx: Transaction }
+  | { time: number; kind: 'block'; block: Block }
+  | { time: number; kind: 'projection'; blocks: ProjectedBlock[] }
+  | { time: number; kind: 'removed' | 'confirmed'; txids: string[] }
+  | { time: number; kind: 'replaced'; replacements: TxReplacement[] };
+
+const DEFAULT_MAX_SECONDS = 120;
+const TAIL_SECONDS = 6;
+/** After the last event the queue keeps playing out on the grid for at most this long. */
+const MAX_DRAIN_SECONDS = 60;
+const DRAIN_STEP_SECONDS = 0.5;
+
+/** Flatten a capture into tx/block events, times in seconds from capture start. */
+function buildTimeline(text: string): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  for (const entry of parseReplayFile(text)) {
+    if (!('frame' in entry)) continue;
+    const time = entry.t / 1000;
+    try {
+      dispatchFrame(entry.frame, {
+        onTransaction: (tx) => events.push({ time, kind: 'tx', tx }),
+        onBlock: (block) => events.push({ time, kind: 'block', block }),
+        onStats: () => {},
+        onProjectedBlocks: (blocks) => events.push({ time, kind: 'projection', blocks }),
+        onRemoved: (txids) => events.push({ time, kind: 'removed', txids }),
+        onConfirmed: (txids) => events.push({ time, kind: 'confirmed', txids }),
+        onReplaced: (replacements) => events.push({ time, kind: 'replaced', replacements })
+      });
+    } catch (e) {
+      console.error('Mempool.fm: Render parse error', e);
+    }
+  }
+  return events;
+}
+
+/** Cut the window to render and rebase it to start at 0. */
+function selectWindow(events: TimelineEvent[], fromBlockHeight?: number): TimelineEvent[] {
+  if (fromBlockHeight === undefined) return events;
+  const startIndex = events.findIndex(e => e.kind === 'block' && e.block.height === fromBlockHeight);
+  if (startIndex === -1) throw new Error(`Block ${fromBlockHeight} is not in this capture`);
+  const start = events[startIndex].time;
+  const endIndex = events.findIndex((e, i) => i > startIndex && e.kind === 'block');
+  return events
+    .slice(startIndex, endIndex === -1 ? undefined : endIndex)
+    .map(e => ({ ...e, time: e.time - start }));
+}
+
+/**
+ * Render a recorded or replayed session through the live voices, effects and
+ * sequencer grid on an OfflineAudioContext.
+ */
+export async function renderSession(text: string, options: RenderOptions): Promise<AudioBuffer> {
+  const maxSeconds = options.maxSeconds ?? DEFAULT_MAX_SECONDS;
+  const sampleRate = options.sampleRate ?? 44100;
+  const events = selectWindow(buildTimeline(text), options.fromBlockHeight)
+    .filter(e => e.time <= maxSeconds);
+  if (events.length === 0) throw new Error('Nothing to render in this capture');
+
+  const streamSeconds = events[events.length - 1].time;
+  // How long the queue takes to drain is only known once scheduled; the surplus is trimmed after rendering
+  const ctx = new OfflineAudioContext(
+    2, Math.ceil((streamSeconds + MAX_DRAIN_SECONDS + TAIL_SECONDS) * sampleRate), sampleRate
+  );
+  const random = createRandom(options.seed ?? 1);
+
+  const engine = new AudioEngine(random, new Mixer({ settings: options.mixer }));
+  engine.setSoundPack(options.pack);
+  if (options.mood) engine.setMood(options.mood);
+  engine.attach(ctx);
+
+  const harmony = new HarmonyLayer(engine);
+  harmony.enabled = options.harmony ?? true;
+
+  let clock = 0;
+  const sequencer = new Sequencer(
+    {
+      onSchedule: (event) => {
+        harmony.onStep(event.step, event.time);
+        if (event.tx) engine.playTransaction(event.tx.value, event.step, event.time, event.tx.feeRate);
+        else if (event.cluster) engine.playCluster(event.cluster, event.time);
+        else if (event.ghost) engine.playTransaction(0, event.step, event.time);
+      },
+      onVisual: () => {},
+      onPulse: (time) => engine.playShaker(time)
+    },
+    () => clock,
+    random
+  );
+  sequencer.setGroove(options.pack.groove);
+
+  for (const event of events) {
+    clock = event.time;
+    sequencer.advance(event.time);
+    switch (event.kind) {
+      case 'tx':
+        sequencer.enqueue(event.tx);
+        break;
+      case 'block':
+        engine.playBlockConfirm(event.time);
+        break;
+      case 'projection':
+        harmony.setProjectedBlocks(event.blocks);
+        break;
+      case 'removed':
+        sequencer.discard(new Set(event.txids));
+        engine.playRemoved(event.txids.length, event.time);
+        break;
+      case 'confirmed':
+        sequencer.discard(new Set(event.txids));
+        engine.playConfirmed(event.txids.length, event.time);
+        break;
+      case 'replaced':
+        event.replacements.forEach(({ txid, by }) => sequencer.replace(txid, by));
+        engine.playReplaced(event.time);
+        break;
+    }
+  }
+  // Keep playing the queue out on the grid after the last event, up to MAX_DRAIN_SECONDS
+  let end = streamSeconds;
+  sequencer.advance(end);
+  while (sequencer.queueLength > 0 && end < streamSeconds + MAX_DRAIN_SECONDS) {
+    end = Math.min(end + DRAIN_STEP_SECONDS, streamSeconds + MAX_DRAIN_SECONDS);
+    clock = end;
+    sequencer.advance(end);
+  }
+
+  return trim(await ctx.startRendering(), Math.ceil((end + TAIL_SECONDS) * sampleRate));
+}
+
+/** The first `length` frames of `buffer`. */
+function trim(buffer: AudioBuffer, length: number): AudioBuffer {
+  if (length >= buffer.length) return buffer;
+  const trimmed = new AudioBuffer({ numberOfChannels: buffer.numberOfChannels, length, sampleRate: buffer.sampleRate });
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    trimmed.copyToChannel(buffer.getChannelData(i).subarray(0, length), i);
+  }
+  return trimmed;
+}
+
+export async function renderSessionToWav(text: string, options: RenderOptions): Promise<Blob> {
+  return encodeWav(await renderSession(text, options));
+}
@@ -0,0 +1,334 @@
+import { DEFAULT_BASE_URL, getApiUrl } from './network';
+
+export type FiatCurrency = 'USD' | 'EUR' | 'GBP' | 'JPY';
+/** Display currency; `SATS` shows amounts in sats with no fiat conversion. */
+export type Currency = FiatCurrency | 'SATS';
+
+export const CURRENCIES: { id: Currency; label: string }[] = [
+  { id: 'USD', label: 'USD' },
+  { id: 'EUR', label: 'EUR' },
+  { id: 'GBP', label: 'GBP' },
+  { id: 'JPY', label: 'JPY' },
+  { id: 'SATS', label: 'Sats' }
+];
+
+const FIAT: FiatCurrency[] = ['USD', 'EUR', 'GBP', 'JPY'];
+
+export const isCurrency = (value: unknown): value is Currency => CURRENCIES.some(c => c.id === value);
+
+/** BTC price per fiat currency; a provider may not quote them all. */
+export type PriceTable = Partial<Record<FiatCurrency, number>>;
+
+export interface PriceProvider {
+  id: string;
+  label: string;
+  /** One-off quote; rejects when the provider is down or answers with nothing usable. */
+  fetchPrices(): Promise<PriceTable>;
+  /** Streaming ticker where the provider has one. Returns a function that closes it. */
+  openTicker?(onPrices: (prices: PriceTable) => void, onClose: () => void): () => void;
+}
+
+export interface PriceSnapshot {
+  prices: PriceTable;
+  /** Label of whatever supplied the latest quote. */
+  source: string | null;
+  /** When the latest quote arrived (ms). */
+  updatedAt: number | null;
+  /** Whether a ticker is streaming. */
+  isLive: boolean;
+}
+
+const SATS_PER_BTC = 100_000_000;
+const POLL_MS = 60_000;
+const FETCH_TIMEOUT_MS = 8_000;
+const TICKER_RETRY_MS = 15_000;
+/** Ticker updates are coalesced to at most one notification per interval. */
+const NOTIFY_INTERVAL_MS = 1_000;
+/** Quotes older than this are flagged as stale. */
+export const STALE_AFTER_MS = 3 * 60_000;
+
+/** A positive finite price from a number or numeric string, else undefined. */
+const price = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : undefined;
+};
+
+const pick = (source: Record<string, unknown>, keys: Record<FiatCurrency, string>): PriceTable => {
+  const table: PriceTable = {};
+  FIAT.forEach(currency => {
+    const value = price(source[keys[currency]]);
+    if (value !== undefined) table[currency] = value;
+  });
+  return table;
+};
+
+const fetchJson = async (url: string): Promise<any> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return await res.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const SAME_KEYS: Record<FiatCurrency, string> = { USD: 'USD', EUR: 'EUR', GBP: 'GBP', JPY: 'JPY' };
+
+export const coinbaseProvider: PriceProvider = {
+  id: 'coinbase',
+  label: 'Coinbase',
+  async fetchPrices() {
+    const body = await fetchJson('https://api.coinbase.com/v2/exchange-rates?currency=BTC');
+    return pick(body?.data?.rates ?? {}, SAME_KEYS);
+  }
+};
+
+/** Prices from a mempool instance's `/api/v1/prices`; self-hosted backends serve them too. */
+export const createMempoolProvider = (baseUrl: string): PriceProvider => ({
+  id: 'mempool',
+  label: baseUrl === DEFAULT_BASE_URL ? 'mempool.space' : new URL(baseUrl).host,
+  async fetchPrices() {
+    // Prices are the same on every network; mainnet's path needs no prefix
+    const url = `${getApiUrl({ network: 'mainnet', baseUrl })}/v1/prices`;
+    return pick(await fetchJson(url) ?? {}, SAME_KEYS);
+  }
+});
+
+export const mempoolSpaceProvider = createMempoolProvider(DEFAULT_BASE_URL);
+
+const KRAKEN_PAIRS: Record<FiatCurrency, string> = { USD: 'XXBTZUSD', EUR: 'XXBTZEUR', GBP: 'XXBTZGBP', JPY: 'XXBTZJPY' };
+const KRAKEN_SYMBOLS: Record<string, FiatCurrency> = { 'BTC/USD': 'USD', 'BTC/EUR': 'EUR', 'BTC/GBP': 'GBP', 'BTC/JPY': 'JPY' };
+
+export const krakenProvider: PriceProvider = {
+  id: 'kraken',
+  label: 'Kraken',
+  async fetchPrices() {
+    const body = await fetchJson('https://api.kraken.com/0/public/Ticker?pair=XBTUSD,XBTEUR,XBTGBP,XBTJPY');
+    // Each pair's last trade is `c: [price, volume]`
+    const lastTrades: Record<string, unknown> = {};
+    Object.entries(body?.result ?? {}).forEach(([pair, ticker]: [string, any]) => {
+      lastTrades[pair] = ticker?.c?.[0];
+    });
+    return pick(lastTrades, KRAKEN_PAIRS);
+  },
+  openTicker(onPrices, onClose) {
+    const ws = new WebSocket('wss://ws.kraken.com/v2');
+    ws.onopen = () => ws.send(JSON.stringify({
+      method: 'subscribe',
+      params: { channel: 'ticker', symbol: Object.keys(KRAKEN_SYMBOLS) }
+    }));
+    ws.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.channel !== 'ticker' || !Array.isArray(message.data)) return;
+        const prices: PriceTable = {};
+        message.data.forEach((entry: any) => {
+          const currency = KRAKEN_SYMBOLS[entry?.symbol];
+          const last = price(entry?.last);
+          if (currency && last !== undefined) prices[currency] = last;
+        });
+        if (Object.keys(prices).length > 0) onPrices(prices);
+      } catch (e) {
+        console.error('Price ticker parse error', e);
+      }
+    };
+    ws.onclose = () => onClose();
+    return () => {
+      ws.onclose = null;
+      ws.close();
+    };
+  }
+};
+
+/** Polled in order until one answers; the first with a ticker also streams. */
+export const DEFAULT_PROVIDERS: PriceProvider[] = [krakenProvider, coinbaseProvider, mempoolSpaceProvider];
+
+/** The default providers, with the mempool fallback on the configured backend rather than mempool.space. */
+export const providersForBackend = (baseUrl: string): PriceProvider[] =>
+  baseUrl === DEFAULT_BASE_URL ? DEFAULT_PROVIDERS : [krakenProvider, coinbaseProvider, createMempoolProvider(baseUrl)];
+
+/** Canned prices for tests and offline work; set `fail` to simulate an outage and `tick` to stream. */
+export class MockPriceProvider implements PriceProvider {
+  id = 'mock';
+  label = 'Mock';
+  prices: PriceTable;
+  fail = false;
+  private tickers = new Set<(prices: PriceTable) => void>();
+
+  constructor(prices: PriceTable = { USD: 60_000 }) {
+    this.prices = prices;
+  }
+
+  async fetchPrices() {
+    if (this.fail) throw new Error('Mock provider is down');
+    return { ...this.prices };
+  }
+
+  openTicker(onPrices: (prices: PriceTable) => void) {
+    this.tickers.add(onPrices);
+    return () => { this.tickers.delete(onPrices); };
+  }
+
+  tick(prices: PriceTable) {
+    this.prices = { ...this.prices, ...prices };
+    this.tickers.forEach(onPrices => onPrices(prices));
+  }
+}
+
+/**
+ * BTC spot prices from a list of providers with failover: polled every minute
+ * from the first provider that answers, and streamed from a websocket ticker
+ * where one is available. The last good quote is kept when every provider fails,
+ * and `isStale` tells the UI to say so.
+ */
+export class PriceFeed {
+  private providers: PriceProvider[];
+  private current: PriceSnapshot = { prices: {}, source: null, updatedAt: null, isLive: false };
+  private listeners = new Set<() => void>();
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private notifyTimeout: ReturnType<typeof setTimeout> | null = null;
+  private lastNotifyAt = 0;
+  private closeTicker: (() => void) | null = null;
+  private running = false;
+
+  constructor(providers: PriceProvider[] = DEFAULT_PROVIDERS) {
+    this.providers = providers;
+  }
+
+  get snapshot(): PriceSnapshot {
+    return this.current;
+  }
+
+  /** Takes effect from the next poll; the ticker carries on from whichever provider opened it. */
+  setProviders(providers: PriceProvider[]) {
+    this.providers = providers;
+  }
+
+  isStale(now = Date.now()) {
+    return this.current.updatedAt === null || now - this.current.updatedAt > STALE_AFTER_MS;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.poll();
+    this.pollInterval = setInterval(() => this.poll(), POLL_MS);
+    this.openTicker();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.pollInterval !== null) clearInterval(this.pollInterval);
+    if (this.retryTimeout !== null) clearTimeout(this.retryTimeout);
+    if (this.notifyTimeout !== null) clearTimeout(this.notifyTimeout);
+    this.pollInterval = null;
+    this.retryTimeout = null;
+    this.notifyTimeout = null;
+    this.closeTicker?.();
+    this.closeTicker = null;
+    if (this.current.isLive) this.update({ isLive: false });
+  }
+
+  /**
+   * A USD price from somewhere other than the providers (a recording, the
+   * simulator). Other currencies follow at their last known cross rates.
+   */
+  setExternalPrice(usd: number, source: string) {
+    const prices: PriceTable = { USD: usd };
+    const previousUsd = this.current.prices.USD;
+    if (previousUsd) {
+      FIAT.forEach(currency => {
+        const previous = this.current.prices[currency];
+        if (currency !== 'USD' && previous) prices[currency] = previous * usd / previousUsd;
+      });
+    }
+    this.update({ prices, source, updatedAt: Date.now() });
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /** Try each provider in turn; a streaming ticker makes polling unnecessary while it's fresh. */
+  async poll() {
+    const { isLive, updatedAt } = this.current;
+    if (isLive && updatedAt !== null && Date.now() - updatedAt < POLL_MS) return;
+    for (const provider of this.providers) {
+      try {
+        const prices = await provider.fetchPrices();
+        if (!this.running) return;
+        if (prices.USD === undefined) throw new Error('no USD quote');
+        this.update({ prices: { ...this.current.prices, ...prices }, source: provider.label, updatedAt: Date.now() });
+        return;
+      } catch (err) {
+        console.warn(`Price provider ${provider.label} failed`, err);
+      }
+    }
+    console.error('All price providers failed; keeping the last quote');
+  }
+
+  private openTicker() {
+    const provider = this.providers.find(p => p.openTicker);
+    if (!provider?.openTicker || !this.running) return;
+    this.closeTicker = provider.openTicker(
+      prices => {
+        this.current = {
+          prices: { ...this.current.prices, ...prices },
+          source: provider.label,
+          updatedAt: Date.now(),
+          isLive: true
+        };
+        this.notifyThrottled();
+      },
+      () => {
+        this.closeTicker = null;
+        this.update({ isLive: false });
+        if (this.running) this.retryTimeout = setTimeout(() => this.openTicker(), TICKER_RETRY_MS);
+      }
+    );
+  }
+
+  private update(patch: Partial<PriceSnapshot>) {
+    this.current = { ...this.current, ...patch };
+    this.notify();
+  }
+
+  private notifyThrottled() {
+    if (this.notifyTimeout !== null) return;
+    const wait = Math.max(0, this.lastNotifyAt + NOTIFY_INTERVAL_MS - Date.now());
+    this.notifyTimeout = setTimeout(() => {
+      this.notifyTimeout = null;
+      this.notify();
+    }, wait);
+  }
+
+  private notify() {
+    this.lastNotifyAt = Date.now();
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/** Value of `btc` in `currency`, or null while no price is known. */
+export function convertBtc(btc: number, currency: Currency, prices: PriceTable): number | null {
+  if (currency === 'SATS') return btc * SATS_PER_BTC;
+  const rate = prices[currency];
+  return rate ? btc * rate : null;
+}
+
+/** Format an amount already in `currency`; `—` when unknown. */
+export function formatMoney(amount: number | null, currency: Currency, fractionDigits?: number): string {
+  if (amount === null) return '—';
+  if (currency === 'SATS') return `${Math.round(amount).toLocaleString()} sats`;
+  return amount.toLocaleString(undefined, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  });
+}
+
+export const priceFeed = new PriceFeed();
@@ -0,0 +1,107 @@
+import { AudioEngine, MarketMood, NEUTRAL_MOOD, audioEngine } from './audioEngine';
+
+export type PriceTrend = 'up' | 'down' | 'flat';
+
+/** The move over this window sets the key and mode. */
+const TREND_WINDOW_MS = 30 * 60_000;
+/** A trend starts past this relative move and ends once back inside the smaller one. */
+const TREND_ENTER = 0.008;
+const TREND_EXIT = 0.003;
+/** Semitones an uptrend lifts the key. */
+const UPTREND_TRANSPOSE = 2;
+/** The move over this window sets delay feedback and reverb; FULL_SWING maxes them out. */
+const SWING_WINDOW_MS = 10 * 60_000;
+const FULL_SWING = 0.015;
+/** A move this large within SHARP_WINDOW_MS fires a riser or drop, at most once per cooldown. */
+const SHARP_WINDOW_MS = 2 * 60_000;
+const SHARP_MOVE = 0.005;
+const SHARP_COOLDOWN_MS = 3 * 60_000;
+/** Intensity steps, so tiny wiggles don't re-apply the effects every second. */
+const INTENSITY_STEPS = 20;
+
+interface PriceSample {
+  at: number;
+  price: number;
+}
+
+/**
+ * Turns BTC price movement into musical mood: a sustained downtrend moves the
+ * engine to minor and an uptrend lifts the key, the size of recent moves
+ * deepens the dub delay and reverb, and sharp moves fire a riser or drop.
+ */
+export class PriceMood {
+  private engine: AudioEngine;
+  private samples: PriceSample[] = [];
+  private currentTrend: PriceTrend = 'flat';
+  private lastMoveAt = -Infinity;
+  private isEnabled = true;
+
+  constructor(engine: AudioEngine) {
+    this.engine = engine;
+  }
+
+  get trend(): PriceTrend {
+    return this.currentTrend;
+  }
+
+  get enabled() {
+    return this.isEnabled;
+  }
+
+  /** Turning the mood off returns the engine to the pack's own key and effects. */
+  set enabled(value: boolean) {
+    this.isEnabled = value;
+    if (!value) this.engine.setMood(NEUTRAL_MOOD);
+  }
+
+  addPrice(price: number, at = Date.now()) {
+    if (!(price > 0)) return;
+    this.samples.push({ at, price });
+    // Keep one sample from before the window as its starting point
+    while (this.samples.length > 2 && this.samples[1].at <= at - TREND_WINDOW_MS) this.samples.shift();
+    if (!this.isEnabled) return;
+
+    const trendMove = this.change(TREND_WINDOW_MS, at);
+    if (trendMove >= TREND_ENTER) this.currentTrend = 'up';
+    else if (trendMove <= -TREND_ENTER) this.currentTrend = 'down';
+    else if (Math.abs(trendMove) < TREND_EXIT) this.currentTrend = 'flat';
+
+    const swing = Math.min(1, Math.abs(this.change(SWING_WINDOW_MS, at)) / FULL_SWING);
+    const mood: MarketMood = {
+      transpose: this.currentTrend === 'up' ? UPTREND_TRANSPOSE : 0,
+      minor: this.currentTrend === 'down',
+      intensity: Math.round(swing * INTENSITY_STEPS) / INTENSITY_STEPS
+    };
+    const previous = this.engine.marketMood;
+    if (mood.transpose !== previous.transpose || mood.minor !== previous.minor || mood.intensity !== previous.intensity) {
+      this.engine.setMood(mood);
+    }
+
+    const sharpMove = this.change(SHARP_WINDOW_MS, at);
+    if (Math.abs(sharpMove) >= SHARP_MOVE && at - this.lastMoveAt >= SHARP_COOLDOWN_MS) {
+      this.lastMoveAt = at;
+      this.engine.playPriceMove(sharpMove > 0 ? 'up' : 'down', Math.abs(sharpMove) / (SHARP_MOVE * 4));
+    }
+  }
+
+  /** Forget the price history, e.g. when switching between live, replay and simulation. */
+  reset() {
+    this.samples = [];
+    this.currentTrend = 'flat';
+    this.lastMoveAt = -Infinity;
+    this.engine.setMood(NEUTRAL_MOOD);
+  }
+
+  /** Relative move from the price as of `window` ago (or the oldest sample) to the latest. */
+  private change(window: number, at: number) {
+    let anchor = this.samples[0];
+    for (const sample of this.samples) {
+      if (sample.at > at - window) break;
+      anchor = sample;
+    }
+    const latest = this.samples[this.samples.length - 1];
+    return (latest.price - anchor.price) / anchor.price;
+  }
+}
+
+export const priceMood = new PriceMood(audioEngine);
@@ -0,0 +1,166 @@
+import { DataSource, DataSourceHandlers } from './dataSource';
+import { dispatchFrame } from './feedParser';
+import { SESSION_FORMAT, SESSION_VERSION, SessionEntry, SessionSnapshot } from './sessionRecorder';
+
+export const MIN_REPLAY_SPEED = 0.5;
+export const MAX_REPLAY_SPEED = 8;
+
+export type ReplayInput = { url: string } | { text: string; name?: string };
+
+export interface ReplayOptions {
+  speed?: number;
+  loop?: boolean;
+}
+
+/**
+ * Parse a JSONL capture: one `{ "t": <ms>, "frame": "<raw ws frame>" }` or
+ * `{ "t": <ms>, "snapshot": {...} }` object per line. An optional session header
+ * (see SessionRecorder) contributes its snapshot at t=0; unknown lines are skipped.
+ * Malformed lines, such as a last line cut short when the tab closed mid-write,
+ * are skipped too and reported in a single warning.
+ */
+export function parseReplayFile(text: string): SessionEntry[] {
+  const entries: SessionEntry[] = [];
+  let malformed = 0;
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    let entry: any;
+    try {
+      entry = JSON.parse(trimmed);
+    } catch {
+      malformed++;
+      continue;
+    }
+    if (typeof entry !== 'object' || entry === null) {
+      malformed++;
+      continue;
+    }
+    if (entry.format === SESSION_FORMAT) {
+      if (entry.version > SESSION_VERSION) {
+        throw new Error(`Unsupported session version ${entry.version}`);
+      }
+      if (entry.snapshot) entries.push({ t: 0, snapshot: entry.snapshot });
+      continue;
+    }
+    if (typeof entry.t !== 'number') continue;
+    if (typeof entry.frame === 'string') {
+      entries.push({ t: entry.t, frame: entry.frame });
+    } else if (entry.snapshot) {
+      entries.push({ t: entry.t, snapshot: entry.snapshot });
+    }
+  }
+  if (malformed > 0) console.warn(`Mempool.fm: Skipped ${malformed} malformed replay line(s)`);
+  return entries.sort((a, b) => a.t - b.t);
+}
+
+const clampSpeed = (speed: number) => Math.max(MIN_REPLAY_SPEED, Math.min(MAX_REPLAY_SPEED, speed));
+
+/**
+ * Re-emits a recorded session through the same frame parser as the live socket,
+ * preserving the original gaps between frames (scaled by `speed`).
+ */
+export class ReplaySource implements DataSource {
+  private handlers: DataSourceHandlers;
+  private input: ReplayInput;
+  private speed: number;
+  private loop: boolean;
+  private entries: SessionEntry[] = [];
+  private cursor = 0;
+  private timeout: number | null = null;
+  private active = false;
+
+  constructor(handlers: DataSourceHandlers, input: ReplayInput, options: ReplayOptions = {}) {
+    this.handlers = handlers;
+    this.input = input;
+    this.speed = clampSpeed(options.speed ?? 1);
+    this.loop = options.loop ?? true;
+  }
+
+  async connect() {
+    this.active = true;
+    this.handlers.onStatus?.('connecting');
+    try {
+      const text = 'url' in this.input
+        ? await (await fetch(this.input.url)).text()
+        : this.input.text;
+      if (!this.active) return;
+      this.entries = parseReplayFile(text);
+    } catch (e) {
+      console.error('Mempool.fm: Replay load error', e);
+      this.handlers.onStatus?.('disconnected');
+      return;
+    }
+
+    this.cursor = 0;
+    this.handlers.onStatus?.('connected');
+    this.scheduleNext();
+  }
+
+  setSpeed(speed: number) {
+    this.speed = clampSpeed(speed);
+    // Re-arm the pending frame so the new speed applies immediately
+    if (this.timeout !== null) {
+      window.clearTimeout(this.timeout);
+      this.timeout = null;
+      this.scheduleNext();
+    }
+  }
+
+  private scheduleNext() {
+    if (!this.active) return;
+    if (this.cursor >= this.entries.length) {
+      if (this.loop && this.entries.length > 0) {
+        this.cursor = 0;
+      } else {
+        this.handlers.onStatus?.('disconnected');
+        return;
+      }
+    }
+
+    const current = this.entries[this.cursor];
+    const previous = this.cursor > 0 ? this.entries[this.cursor - 1] : null;
+    const gap = previous ? current.t - previous.t : 0;
+
+    this.timeout = window.setTimeout(() => {
+      this.timeout = null;
+      try {
+        if ('frame' in current) dispatchFrame(current.frame, this.handlers);
+        else this.applySnapshot(current.snapshot);
+      } catch (e) {
+        console.error('Mempool.fm: Replay parse error', e);
+      }
+      this.cursor++;
+      this.scheduleNext();
+    }, gap / this.speed);
+  }
+
+  private applySnapshot(snapshot: SessionSnapshot) {
+    if (snapshot.btcPrice > 0) this.handlers.onPrice?.(snapshot.btcPrice);
+    this.handlers.onStats(snapshot.mempool);
+  }
+
+  disconnect() {
+    this.active = false;
+    this.handlers.onStatus?.('disconnected');
+    if (this.timeout !== null) {
+      window.clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+}
+
+/** Read `?replay=<url>&speed=<n>&loop=0|1` so kiosks can boot straight into a capture. */
+export function getReplayFromUrl(): { input: ReplayInput; options: ReplayOptions } | null {
+  const params = new URLSearchParams(window.location.search);
+  const url = params.get('replay');
+  if (!url) return null;
+  const speed = parseFloat(params.get('speed') ?? '1');
+  return {
+    input: { url },
+    options: {
+      speed: Number.isFinite(speed) ? speed : 1,
+      loop: params.get('loop') !== '0'
+    }
+  };
+}
@@ -0,0 +1,231 @@
+import { Transaction } from '../types';
+import { GroovePattern, DEFAULT_SOUND_PACK } from './soundPacks';
+import { QueueStats, TxCluster, TxQueue } from './txQueue';
+
+export const STEPS_PER_BAR = 16;
+
+/** One scheduled grid step. `time` is on the sequencer clock (AudioContext seconds once audio runs). */
+export interface SequencerEvent {
+  step: number;
+  time: number;
+  tx: Transaction | null;
+  /** Burst of small txs played together as a roll; `tx` is null when this is set. */
+  cluster: TxCluster | null;
+  /** Empty step that may carry a ghost note to keep the rhythm alive. */
+  ghost: boolean;
+}
+
+export interface SequencerHandlers {
+  /** Called ahead of time so audio can be scheduled exactly at `event.time`. */
+  onSchedule: (event: SequencerEvent) => void;
+  /** Called from the animation frame once the clock reaches `event.time`. */
+  onVisual: (event: SequencerEvent) => void;
+  /** Steady shaker pulse, independent of the swung grid. */
+  onPulse?: (time: number) => void;
+}
+
+const MIN_STEP = 0.04;
+const PULSE_INTERVAL = 0.4;
+// How often the scheduler wakes up, and how far ahead of the clock it books notes
+const TICK_MS = 25;
+const LOOKAHEAD = 0.12;
+// If the clock jumps (audio context swapped in, tab suspended) resync rather than burst-play
+const MAX_DRIFT = 1.0;
+// Visuals that missed their frame by more than this are dropped, not replayed in a clump
+const MAX_VISUAL_LATENESS = 0.5;
+
+/**
+ * Tiny worker that only ticks. Worker timers aren't throttled like a background
+ * tab's window timers, so the lookahead keeps getting serviced.
+ */
+const TICKER_SOURCE = `let id = null;
+onmessage = (e) => {
+  if (e.data === 'stop') { clearInterval(id); id = null; return; }
+  if (id === null) id = setInterval(() => postMessage('tick'), e.data);
+};`;
+
+/**
+ * Lookahead sequencer ("two clocks" pattern): a coarse timer books grid steps a
+ * little ahead on the audio clock, so playback stays sample-accurate however
+ * late the timer fires.
+ */
+export class Sequencer {
+  private handlers: SequencerHandlers;
+  private getTime: () => number;
+  private queue = new TxQueue();
+  private step = 0;
+  private nextStepTime = 0;
+  private nextPulseTime = 0;
+  private pendingVisuals: SequencerEvent[] = [];
+  private ticker: Worker | null = null;
+  private intervalId: number | null = null;
+  private frameId: number | null = null;
+  private running = false;
+  private groove: GroovePattern = DEFAULT_SOUND_PACK.groove;
+
+  private random: () => number;
+
+  constructor(handlers: SequencerHandlers, getTime: () => number, random: () => number = Math.random) {
+    this.handlers = handlers;
+    this.getTime = getTime;
+    this.random = random;
+  }
+
+  get queueLength() {
+    return this.queue.depth;
+  }
+
+  get queueStats(): QueueStats {
+    return this.queue.stats;
+  }
+
+  /** Takes effect from the next scheduled step. */
+  setGroove(groove: GroovePattern) {
+    this.groove = groove;
+  }
+
+  /** Bursts are merged into clusters by the queue policy rather than dropped. */
+  enqueue(tx: Transaction) {
+    this.queue.push(tx);
+  }
+
+  /** Drop queued txs that left the mempool before their turn came. */
+  discard(txids: Set<string>) {
+    this.queue.discard(txids);
+  }
+
+  /** Swap a queued tx for its RBF replacement, keeping its place in line. */
+  replace(txid: string, by: Transaction) {
+    this.queue.replace(txid, by);
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    const now = this.getTime();
+    this.nextStepTime = now;
+    this.nextPulseTime = now;
+
+    try {
+      const url = URL.createObjectURL(new Blob([TICKER_SOURCE], { type: 'text/javascript' }));
+      this.ticker = new Worker(url);
+      URL.revokeObjectURL(url);
+      this.ticker.onmessage = () => this.schedule();
+      this.ticker.postMessage(TICK_MS);
+    } catch {
+      this.ticker = null;
+      this.intervalId = window.setInterval(() => this.schedule(), TICK_MS);
+    }
+
+    this.schedule();
+    this.drawLoop();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.ticker) {
+      this.ticker.postMessage('stop');
+      this.ticker.terminate();
+      this.ticker = null;
+    }
+    if (this.intervalId !== null) {
+      window.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.pendingVisuals = [];
+  }
+
+  private schedule() {
+    if (!this.running) return;
+    const now = this.getTime();
+    if (Math.abs(this.nextStepTime - now) > MAX_DRIFT) {
+      this.nextStepTime = now;
+      this.nextPulseTime = now;
+      this.pendingVisuals = [];
+    }
+    // Without animation frames (hidden tab) visuals would pile up; shed the stale ones
+    while (this.pendingVisuals.length && now - this.pendingVisuals[0].time > MAX_VISUAL_LATENESS) {
+      this.pendingVisuals.shift();
+    }
+
+    this.advance(now + LOOKAHEAD);
+  }
+
+  /**
+   * Book every step and pulse that starts before `until`. The live scheduler calls this
+   * with a short lookahead; offline renders drive it directly along a virtual timeline.
+   */
+  advance(until: number) {
+    while (this.nextStepTime < until) {
+      this.scheduleStep(this.nextStepTime);
+    }
+    while (this.nextPulseTime < until) {
+      this.handlers.onPulse?.(this.nextPulseTime);
+      this.nextPulseTime += PULSE_INTERVAL;
+    }
+  }
+
+  /**
+   * Bluesy/Jazzy Dispatcher:
+   * Uses "Swing" timing where the grid alternates between a long and short duration.
+   * This creates a shuffle (blues) or swing (jazz) feel.
+   * Also ensures transactions are spread out even during high volume spikes.
+   */
+  private scheduleStep(time: number) {
+    const qLen = this.queue.depth;
+    const isEvenBeat = this.step % 2 === 0;
+
+    // Deciding whether to play on this specific beat
+    // We emphasize the "downbeats" (multiples of 4) for stability
+    const isStrongBeat = this.step % 4 === 0;
+    const probability = isStrongBeat ? this.groove.strongBeatChance : this.groove.offBeatChance;
+    const shouldPlay = qLen > 0 && this.random() < probability;
+
+    const item = shouldPlay ? this.queue.shift() : null;
+    const event: SequencerEvent = {
+      step: this.step,
+      time,
+      tx: item?.kind === 'tx' ? item.tx : null,
+      cluster: item?.kind === 'cluster' ? item.cluster : null,
+      ghost: !shouldPlay && isEvenBeat && this.random() < this.groove.ghostChance
+    };
+
+    this.handlers.onSchedule(event);
+    if (event.tx || event.cluster) this.pendingVisuals.push(event);
+
+    this.nextStepTime += this.stepDuration(qLen, isEvenBeat);
+    this.step = (this.step + 1) % STEPS_PER_BAR;
+  }
+
+  private stepDuration(qLen: number, isEvenBeat: boolean) {
+    // Swing factor: 1.5 for bluesy shuffle, up to 2.0 for hard jazz swing.
+    // We increase swing intensity slightly as the mempool gets busier.
+    const { baseInterval, swing, busySwing } = this.groove;
+    const swingFactor = qLen > 100 ? busySwing : swing;
+
+    let stepDuration = isEvenBeat
+      ? baseInterval * swingFactor
+      : baseInterval * (2 - swingFactor);
+
+    // Adjust global tempo based on congestion (speed up if queue is huge)
+    const congestionSpeedUp = Math.min(2.5, 1 + qLen / 150);
+    stepDuration = stepDuration / congestionSpeedUp;
+
+    // Minimum duration to prevent audio glitching/crowding
+    return Math.max(MIN_STEP, stepDuration);
+  }
+
+  private drawLoop = () => {
+    if (!this.running) return;
+    const now = this.getTime();
+    while (this.pendingVisuals.length && this.pendingVisuals[0].time <= now) {
+      const event = this.pendingVisuals.shift()!;
+      if (now - event.time <= MAX_VISUAL_LATENESS) this.handlers.onVisual(event);
+    }
+    this.frameId = requestAnimationFrame(this.drawLoop);
+  };
+}
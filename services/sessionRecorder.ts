@@ -0,0 +1,103 @@
+import { MempoolStats } from '../types';
+import { downloadBlob, fileTimestamp } from './download';
+
+export const SESSION_FORMAT = 'mempool.radio/session';
+export const SESSION_VERSION = 1;
+
+/** REST snapshot taken by App.fetchInitialData (price + mempool summary). */
+export interface SessionSnapshot {
+  btcPrice: number;
+  mempool: MempoolStats;
+}
+
+/** First line of every capture file. */
+export interface SessionHeader {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  startedAt: string;
+  snapshot: SessionSnapshot | null;
+}
+
+/**
+ * Body lines, `t` in ms since recording started (performance.now() resolution).
+ * Either a raw websocket frame or a fresh REST snapshot.
+ */
+export type SessionEntry =
+  | { t: number; frame: string }
+  | { t: number; snapshot: SessionSnapshot };
+
+/**
+ * Captures raw live-feed frames into the versioned JSONL session format that
+ * ReplaySource reads back.
+ */
+export class SessionRecorder {
+  private lines: string[] = [];
+  private startTime = 0;
+  private recording = false;
+  private latestSnapshot: SessionSnapshot | null = null;
+  private frames = 0;
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  get frameCount() {
+    return this.frames;
+  }
+
+  get hasRecording() {
+    return this.lines.length > 0;
+  }
+
+  start() {
+    const header: SessionHeader = {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      startedAt: new Date().toISOString(),
+      snapshot: this.latestSnapshot
+    };
+    this.lines = [JSON.stringify(header)];
+    this.frames = 0;
+    this.startTime = performance.now();
+    this.recording = true;
+  }
+
+  stop() {
+    this.recording = false;
+  }
+
+  recordFrame(raw: string) {
+    if (!this.recording) return;
+    this.push({ t: this.elapsed(), frame: raw });
+    this.frames++;
+  }
+
+  /** Always remembered so the next recording's header starts from current state. */
+  recordSnapshot(snapshot: SessionSnapshot) {
+    this.latestSnapshot = snapshot;
+    if (this.recording) this.push({ t: this.elapsed(), snapshot });
+  }
+
+  toText(): string {
+    return this.lines.join('\n') + '\n';
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toText()], { type: 'application/x-ndjson' });
+  }
+
+  download() {
+    if (!this.hasRecording) return;
+    downloadBlob(this.toBlob(), `mempool-radio-${fileTimestamp()}.jsonl`);
+  }
+
+  private elapsed() {
+    return Math.round((performance.now() - this.startTime) * 1000) / 1000;
+  }
+
+  private push(entry: SessionEntry) {
+    this.lines.push(JSON.stringify(entry));
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
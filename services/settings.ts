@@ -0,0 +1,317 @@
+import { DEFAULT_MIXER, MixerSettings, ChannelId, normalizeMixerSettings } from './mixer';
+import { NetworkConfig, DEFAULT_NETWORK, isNetworkId, parseBaseUrl } from './network';
+import { DEFAULT_SOUND_PACK, SOUND_PACKS, VoiceId } from './soundPacks';
+import { DEFAULT_MIDI, MidiSettings } from './midiOutput';
+import { DEFAULT_EVENT_BUS, EventBusSettings } from './eventBus';
+import { DEFAULT_SCENE, SceneId, isSceneId } from '../components/scenes/types';
+import { RendererMode } from '../components/scenes/renderer';
+import { SETTLED_CONFIRMATIONS } from './watchlist';
+import { Currency, isCurrency } from './priceFeed';
+
+/** Everything a listener can tweak; persisted locally and shareable as URL parameters. */
+export interface Settings {
+  volume: number;
+  soundPackId: string;
+  harmony: boolean;
+  /** Key, mode and effects follow the BTC price (see PriceMood). */
+  priceMood: boolean;
+  mixer: MixerSettings;
+  network: NetworkConfig;
+  /** Currency prices and tx values are shown in. */
+  currency: Currency;
+  visuals: {
+    scene: SceneId;
+    feeOverlay: boolean;
+    history: boolean;
+    /** Performance choices depend on the device, so neither goes into preset links. */
+    renderer: RendererMode;
+    perfOverlay: boolean;
+  };
+  thresholds: {
+    /** Bubbles at or above this many BTC are drawn as whales. */
+    whaleBtc: number;
+    /** Confirmations after which a watched tx counts as settled. */
+    settledConfirmations: number;
+  };
+  /** Device-specific, so stored locally but left out of preset links. */
+  midi: MidiSettings;
+  /** Local relay address, so also kept out of preset links. */
+  eventBus: EventBusSettings;
+}
+
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: Settings = {
+  volume: 0.5,
+  soundPackId: DEFAULT_SOUND_PACK.id,
+  harmony: true,
+  priceMood: true,
+  mixer: DEFAULT_MIXER,
+  network: DEFAULT_NETWORK,
+  currency: 'USD',
+  visuals: { scene: DEFAULT_SCENE, feeOverlay: false, history: false, renderer: 'main', perfOverlay: false },
+  thresholds: { whaleBtc: 1, settledConfirmations: SETTLED_CONFIRMATIONS },
+  midi: DEFAULT_MIDI,
+  eventBus: DEFAULT_EVENT_BUS
+};
+
+export const SETTINGS_STORAGE_KEY = 'mempool-radio:settings';
+/** Before settings were unified only the mixer was persisted, under its own key. */
+export const LEGACY_MIXER_KEY = 'mempool-radio:mixer';
+
+/** Stored JSON or a preset overlay; normalizers check every field they read. */
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asObject = (value: unknown): JsonObject => (isObject(value) ? value : {});
+
+/**
+ * Step `n` upgrades stored settings from version n to n + 1. Version 0 is
+ * anything saved before payloads were versioned, or nothing saved at all.
+ */
+const MIGRATIONS: Record<number, (stored: JsonObject, storage: Storage) => JsonObject> = {
+  0: (stored, storage) => {
+    const legacyMixer = storage.getItem(LEGACY_MIXER_KEY);
+    storage.removeItem(LEGACY_MIXER_KEY);
+    if (!legacyMixer || 'mixer' in stored) return stored;
+    try {
+      return { ...stored, mixer: JSON.parse(legacyMixer) as unknown };
+    } catch {
+      return stored;
+    }
+  }
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const midiChannel = (value: unknown, fallback: number) => Math.round(clamp(value, 1, 16, fallback));
+
+function normalizeMidi(raw: unknown): MidiSettings {
+  const value = asObject(raw);
+  const storedChannels = asObject(value.channels);
+  const block = asObject(value.block);
+  const base = DEFAULT_MIDI;
+  const channels = { ...base.channels };
+  (Object.keys(channels) as VoiceId[]).forEach(id => {
+    channels[id] = midiChannel(storedChannels[id], base.channels[id]);
+  });
+  return {
+    outputId: typeof value.outputId === 'string' ? value.outputId : null,
+    replaceSynth: value.replaceSynth === true,
+    channels,
+    block: {
+      channel: midiChannel(block.channel, base.block.channel),
+      kind: block.kind === 'program' ? 'program' : 'cc',
+      number: Math.round(clamp(block.number, 0, 127, base.block.number)),
+      value: Math.round(clamp(block.value, 0, 127, base.block.value))
+    }
+  };
+}
+
+function normalizeEventBus(raw: unknown): EventBusSettings {
+  const value = asObject(raw);
+  let url = DEFAULT_EVENT_BUS.url;
+  try {
+    if (typeof value.url === 'string' && /^wss?:$/.test(new URL(value.url).protocol)) url = value.url;
+  } catch {
+    // Keep the default relay address
+  }
+  return {
+    enabled: value.enabled === true,
+    url,
+    format: value.format === 'osc' ? 'osc' : 'json'
+  };
+}
+
+/** Coerce anything (old versions, hand-edited storage, URL input) into valid settings. */
+function normalize(raw: unknown): Settings {
+  const value = asObject(raw);
+  const network = asObject(value.network);
+  const visuals = asObject(value.visuals);
+  const thresholds = asObject(value.thresholds);
+  const { soundPackId, harmony, priceMood, currency } = value;
+  const base = DEFAULT_SETTINGS;
+  return {
+    volume: clamp(value.volume, 0, 1, base.volume),
+    soundPackId: typeof soundPackId === 'string' && SOUND_PACKS.some(p => p.id === soundPackId) ? soundPackId : base.soundPackId,
+    harmony: typeof harmony === 'boolean' ? harmony : base.harmony,
+    priceMood: typeof priceMood === 'boolean' ? priceMood : base.priceMood,
+    mixer: normalizeMixerSettings(value.mixer),
+    network: {
+      network: isNetworkId(network.network) ? network.network : base.network.network,
+      baseUrl: (typeof network.baseUrl === 'string' && parseBaseUrl(network.baseUrl)) || base.network.baseUrl
+    },
+    currency: isCurrency(currency) ? currency : base.currency,
+    visuals: {
+      scene: isSceneId(visuals.scene) ? visuals.scene : base.visuals.scene,
+      feeOverlay: visuals.feeOverlay === true,
+      history: visuals.history === true,
+      renderer: visuals.renderer === 'worker' ? 'worker' : 'main',
+      perfOverlay: visuals.perfOverlay === true
+    },
+    thresholds: {
+      whaleBtc: clamp(thresholds.whaleBtc, 0.01, 1000, base.thresholds.whaleBtc),
+      settledConfirmations: Math.round(
+        clamp(thresholds.settledConfirmations, 1, 100, base.thresholds.settledConfirmations)
+      )
+    },
+    midi: normalizeMidi(value.midi),
+    eventBus: normalizeEventBus(value.eventBus)
+  };
+}
+
+/**
+ * Stored settings, migrated to the current version. A payload without a version
+ * is settings saved before versioning; one from a newer build falls back to defaults.
+ */
+export function loadStored(storage: Storage = localStorage): Settings {
+  try {
+    const raw = storage.getItem(SETTINGS_STORAGE_KEY);
+    const stored: unknown = raw ? JSON.parse(raw) : null;
+    let version = 0;
+    let settings: JsonObject = {};
+    if (isObject(stored) && typeof stored.version === 'number') {
+      version = stored.version;
+      settings = asObject(stored.settings);
+    } else if (isObject(stored)) {
+      settings = stored;
+    }
+    if (version > SETTINGS_VERSION) {
+      console.warn(`Settings version ${version} is newer than this build; using defaults`);
+      return DEFAULT_SETTINGS;
+    }
+    for (; version < SETTINGS_VERSION; version++) {
+      settings = MIGRATIONS[version](settings, storage);
+    }
+    return normalize(settings);
+  } catch (err) {
+    console.error('Failed to load settings', err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/** Preset parameters dropped from the address bar once applied; network ones stay mirrored there. */
+const CONSUMED_PARAMS = ['vol', 'pack', 'harmony', 'mood', 'scene', 'overlays', 'whale', 'confirmations', 'mix', 'currency'];
+
+const flag = (value: boolean) => (value ? '1' : '0');
+
+/**
+ * Overlay preset parameters from a URL onto `base`. Only the parameters present
+ * are applied, so a link can carry a full configuration or a single tweak:
+ * `?vol=0.6&pack=ambient&harmony=0&mood=0&network=signet&backend=…&scene=treemap&overlays=fees,history&whale=5&confirmations=3&currency=EUR&mix=…`
+ */
+export function applyPresetParams(base: Settings, params: URLSearchParams): Settings {
+  const number = (key: string) => parseFloat(params.get(key)!);
+  const overlay: Record<string, unknown> = {};
+  const network: Record<string, unknown> = {};
+  const visuals: Record<string, unknown> = {};
+  const thresholds: Record<string, unknown> = {};
+
+  if (params.has('vol')) overlay.volume = number('vol');
+  if (params.has('pack')) overlay.soundPackId = params.get('pack');
+  if (params.has('harmony')) overlay.harmony = params.get('harmony') === '1';
+  if (params.has('mood')) overlay.priceMood = params.get('mood') === '1';
+  if (params.has('network')) network.network = params.get('network');
+  if (params.has('backend')) network.baseUrl = params.get('backend');
+  if (params.has('overlays')) {
+    const overlays = params.get('overlays')!.split(',');
+    visuals.feeOverlay = overlays.includes('fees');
+    visuals.history = overlays.includes('history');
+  }
+  if (params.has('scene')) visuals.scene = params.get('scene');
+  if (params.has('currency')) overlay.currency = params.get('currency')!.toUpperCase();
+  if (params.has('whale')) thresholds.whaleBtc = number('whale');
+  if (params.has('confirmations')) thresholds.settledConfirmations = number('confirmations');
+  if (params.has('mix')) {
+    try {
+      const mix: unknown = JSON.parse(params.get('mix')!);
+      if (!isObject(mix)) throw new Error('not an object');
+      // Only channels that differ from the defaults travel in the link
+      overlay.mixer = { ...DEFAULT_MIXER, ...mix };
+    } catch {
+      console.warn('Ignoring malformed mix parameter');
+    }
+  }
+  // Values that don't normalize fall back to the defaults rather than to `base`
+  return normalize({
+    ...base,
+    ...overlay,
+    network: { ...base.network, ...network },
+    visuals: { ...base.visuals, ...visuals },
+    thresholds: { ...base.thresholds, ...thresholds }
+  });
+}
+
+/** Build a link that opens the radio with `settings`; parameters at their defaults are left out. */
+export function toPresetUrl(settings: Settings, href = window.location.href): string {
+  const url = new URL(href);
+  const defaults = DEFAULT_SETTINGS;
+  const set = (key: string, value: string, fallback: string) => {
+    if (value === fallback) url.searchParams.delete(key);
+    else url.searchParams.set(key, value);
+  };
+
+  set('vol', String(settings.volume), String(defaults.volume));
+  set('pack', settings.soundPackId, defaults.soundPackId);
+  set('harmony', flag(settings.harmony), flag(defaults.harmony));
+  set('mood', flag(settings.priceMood), flag(defaults.priceMood));
+  set('network', settings.network.network, defaults.network.network);
+  set('backend', settings.network.baseUrl, defaults.network.baseUrl);
+  const overlays = [settings.visuals.feeOverlay && 'fees', settings.visuals.history && 'history'].filter(Boolean).join(',');
+  set('overlays', overlays, '');
+  set('scene', settings.visuals.scene, defaults.visuals.scene);
+  set('currency', settings.currency, defaults.currency);
+  set('whale', String(settings.thresholds.whaleBtc), String(defaults.thresholds.whaleBtc));
+  set('confirmations', String(settings.thresholds.settledConfirmations), String(defaults.thresholds.settledConfirmations));
+
+  const changed: Partial<MixerSettings> = {};
+  (Object.keys(DEFAULT_MIXER) as ChannelId[]).forEach(id => {
+    if (JSON.stringify(settings.mixer[id]) !== JSON.stringify(DEFAULT_MIXER[id])) changed[id] = settings.mixer[id];
+  });
+  set('mix', Object.keys(changed).length ? JSON.stringify(changed) : '', '');
+  return url.toString();
+}
+
+/**
+ * Typed, versioned settings persisted to localStorage. A preset link in the
+ * page URL is applied over the stored settings on load and then saved.
+ */
+export class SettingsStore {
+  private value: Settings;
+
+  constructor() {
+    this.value = applyPresetParams(loadStored(), new URLSearchParams(window.location.search));
+    this.save();
+    // Otherwise a reload would re-apply the link over anything changed since
+    const url = new URL(window.location.href);
+    if (CONSUMED_PARAMS.some(key => url.searchParams.has(key))) {
+      CONSUMED_PARAMS.forEach(key => url.searchParams.delete(key));
+      window.history.replaceState(null, '', url);
+    }
+  }
+
+  get current(): Settings {
+    return this.value;
+  }
+
+  update(patch: Partial<Settings>) {
+    this.value = normalize({ ...this.value, ...patch });
+    this.save();
+  }
+
+  reset() {
+    this.value = DEFAULT_SETTINGS;
+    this.save();
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings: this.value }));
+    } catch {
+      // Storage full or disabled: settings still apply for this session
+    }
+  }
+}
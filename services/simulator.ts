@@ -0,0 +1,397 @@
+import { Transaction, ProjectedBlock } from '../types';
+import { DataSource, DataSourceHandlers } from './dataSource';
+import { createRandom } from './random';
+
+export interface SimulationParams {
+  /** Mean transaction arrivals per second (Poisson). */
+  arrivalRate: number;
+  /** Log-normal tx value: median in sats, spread as a standard deviation in log10 units. */
+  valueMedian: number;
+  valueSpread: number;
+  /** Log-normal fee rate in sat/vB. */
+  feeRateMedian: number;
+  feeRateSpread: number;
+  /** Log-normal tx size in vbytes. */
+  vsizeMedian: number;
+  vsizeSpread: number;
+  /** Chance an arrival is a whale, and the BTC range whales are drawn from (log-uniform). */
+  whaleChance: number;
+  whaleBtc: [number, number];
+  /** Chance an arrival is instead an RBF bump of a recent tx. */
+  rbfChance: number;
+  /** Mean seconds between blocks; gaps are exponential like the real chain's. */
+  blockInterval: number;
+  btcPrice: number;
+}
+
+/** A window in which arrivals and fee rates swell and fall back (a sine bump). */
+export interface SimulationSurge {
+  startSec: number;
+  durationSec: number;
+  rateFactor: number;
+  feeFactor: number;
+}
+
+export type ScenarioId = 'weekday' | 'quiet-sunday' | 'fee-spike' | 'inscription-flood' | 'halving-block';
+
+export interface SimulationScenario {
+  id: ScenarioId;
+  label: string;
+  description: string;
+  params: SimulationParams;
+  surge?: SimulationSurge;
+  /** Height of the tip before the first simulated block. */
+  startHeight: number;
+  /** Seconds until the first block, instead of a random gap. */
+  firstBlockSec?: number;
+}
+
+export interface SimulationOptions {
+  scenario: ScenarioId;
+  seed: number;
+  /** Applied over the scenario's params. */
+  overrides?: Partial<SimulationParams>;
+}
+
+const WEEKDAY: SimulationParams = {
+  arrivalRate: 7,
+  valueMedian: 150_000,
+  valueSpread: 0.9,
+  feeRateMedian: 8,
+  feeRateSpread: 0.35,
+  vsizeMedian: 180,
+  vsizeSpread: 0.3,
+  whaleChance: 0.003,
+  whaleBtc: [10, 500],
+  rbfChance: 0.01,
+  blockInterval: 600,
+  btcPrice: 65_000
+};
+
+export const SCENARIOS: SimulationScenario[] = [
+  {
+    id: 'weekday',
+    label: 'Busy weekday',
+    description: 'Steady traffic at moderate fees',
+    params: WEEKDAY,
+    startHeight: 960_000
+  },
+  {
+    id: 'quiet-sunday',
+    label: 'Quiet Sunday',
+    description: 'Sparse arrivals near the fee floor',
+    params: { ...WEEKDAY, arrivalRate: 2, valueMedian: 250_000, feeRateMedian: 2, feeRateSpread: 0.2, whaleChance: 0.001, whaleBtc: [5, 100], rbfChance: 0.003 },
+    startHeight: 960_000
+  },
+  {
+    id: 'fee-spike',
+    label: 'Fee spike',
+    description: 'Traffic triples and fees climb twelvefold for three minutes',
+    params: WEEKDAY,
+    surge: { startSec: 20, durationSec: 180, rateFactor: 3, feeFactor: 12 },
+    startHeight: 960_000
+  },
+  {
+    id: 'inscription-flood',
+    label: 'Inscription flood',
+    description: 'Floods of large, dust-valued txs',
+    params: { ...WEEKDAY, arrivalRate: 35, valueMedian: 546, valueSpread: 0.1, vsizeMedian: 600, vsizeSpread: 0.6, feeRateMedian: 25, feeRateSpread: 0.25, whaleChance: 0.0005 },
+    startHeight: 960_000
+  },
+  {
+    id: 'halving-block',
+    label: 'Halving block',
+    description: 'A fee frenzy racing into block 840,000',
+    params: { ...WEEKDAY, arrivalRate: 12, feeRateMedian: 40, feeRateSpread: 0.5, whaleChance: 0.01, rbfChance: 0.04, btcPrice: 63_000 },
+    surge: { startSec: 30, durationSec: 120, rateFactor: 4, feeFactor: 20 },
+    startHeight: 839_999,
+    firstBlockSec: 90
+  }
+];
+
+export const getScenario = (id: ScenarioId) => SCENARIOS.find(s => s.id === id) ?? SCENARIOS[0];
+
+/** Simulated time advanced per tick; a throttled background tab slows the simulation rather than bursting. */
+const TICK_MS = 100;
+const STATS_INTERVAL_SEC = 2;
+const BLOCK_VSIZE = 1_000_000;
+const PROJECTED_BLOCKS = 8;
+/** Past this many txs the cheapest are evicted, like a node's mempool limit. */
+const MAX_MEMPOOL_TXS = 60_000;
+/** Recent txids RBF bumps pick from. */
+const RECENT_TXS = 200;
+/** Smallest possible tx, in vbytes. */
+const MIN_VSIZE = 110;
+const SATS_PER_BTC = 100_000_000;
+
+const byFeeRateDesc = (a: Transaction, b: Transaction) => b.feeRate - a.feeRate;
+
+/**
+ * Synthetic mempool with no network: Poisson arrivals drawn from a scenario's
+ * distributions, blocks that mine the best-paying txs, RBF bumps, evictions,
+ * mempool stats and projected blocks, all through the live feed's handlers.
+ * The same seed always produces the same stream.
+ */
+export class SimulatorSource implements DataSource {
+  private handlers: DataSourceHandlers;
+  private scenario: SimulationScenario;
+  private params: SimulationParams;
+  private seed: number;
+  private random: () => number = Math.random;
+  private mempool = new Map<string, Transaction>();
+  private recent: string[] = [];
+  private clock = 0;
+  private nextArrival = 0;
+  private nextBlock = 0;
+  private lastStatsAt = 0;
+  private height = 0;
+  private timeout: number | null = null;
+  private active = false;
+
+  constructor(handlers: DataSourceHandlers, options: SimulationOptions) {
+    this.handlers = handlers;
+    this.scenario = getScenario(options.scenario);
+    this.params = { ...this.scenario.params, ...options.overrides };
+    this.seed = options.seed;
+  }
+
+  connect() {
+    this.active = true;
+    this.handlers.onStatus?.('connecting');
+    // Every connect restarts the run, so a reconnect replays the same stream
+    this.random = createRandom(this.seed);
+    this.mempool.clear();
+    this.recent = [];
+    this.clock = 0;
+    this.lastStatsAt = 0;
+    this.height = this.scenario.startHeight;
+    this.nextArrival = this.exponential(1 / this.rateAt(0));
+    this.nextBlock = this.scenario.firstBlockSec ?? this.exponential(this.params.blockInterval);
+
+    // Start with about a block interval of backlog so stats and projected blocks aren't empty
+    const backlog = Math.min(MAX_MEMPOOL_TXS / 2, Math.round(this.params.arrivalRate * this.params.blockInterval));
+    for (let i = 0; i < backlog; i++) {
+      const tx = this.createTx(this.params.feeRateMedian);
+      this.mempool.set(tx.id, tx);
+    }
+
+    this.handlers.onStatus?.('connected');
+    this.handlers.onPrice?.(this.params.btcPrice);
+    this.emitMempool();
+    this.schedule();
+  }
+
+  disconnect() {
+    this.active = false;
+    this.handlers.onStatus?.('disconnected');
+    if (this.timeout !== null) {
+      window.clearTimeout(this.timeout);
+      this.timeout = null;
+    }
+  }
+
+  private schedule() {
+    if (!this.active) return;
+    this.timeout = window.setTimeout(() => {
+      this.timeout = null;
+      this.tick();
+      this.schedule();
+    }, TICK_MS);
+  }
+
+  private tick() {
+    this.clock += TICK_MS / 1000;
+
+    while (this.nextArrival <= this.clock) {
+      this.arrive(this.nextArrival);
+      this.nextArrival += this.exponential(1 / this.rateAt(this.nextArrival));
+    }
+
+    if (this.nextBlock <= this.clock) {
+      this.mineBlock();
+      this.nextBlock = this.clock + this.exponential(this.params.blockInterval);
+      return;
+    }
+
+    if (this.clock - this.lastStatsAt >= STATS_INTERVAL_SEC) this.emitMempool();
+  }
+
+  private arrive(at: number) {
+    const feeRateMedian = this.params.feeRateMedian * this.surgeFactor(at, 'feeFactor');
+
+    if (this.random() < this.params.rbfChance && this.recent.length > 0) {
+      const txid = this.recent[Math.floor(this.random() * this.recent.length)];
+      const original = this.mempool.get(txid);
+      if (original) {
+        this.replace(original);
+        return;
+      }
+    }
+
+    const tx = this.createTx(feeRateMedian);
+    this.mempool.set(tx.id, tx);
+    this.recent.push(tx.id);
+    if (this.recent.length > RECENT_TXS) this.recent.shift();
+    this.handlers.onTransaction(tx);
+  }
+
+  /** Bump a tx's fee rate by 10–100% under a new txid, keeping its value and size. */
+  private replace(original: Transaction) {
+    const feeRate = original.feeRate * (1.1 + this.random() * 0.9);
+    const fee = Math.round(feeRate * original.vsize);
+    const by: Transaction = {
+      id: this.hex(64),
+      value: original.value,
+      fee,
+      vsize: original.vsize,
+      feeRate: fee / original.vsize,
+      timestamp: Date.now()
+    };
+    this.mempool.delete(original.id);
+    this.mempool.set(by.id, by);
+    this.recent = this.recent.map(id => (id === original.id ? by.id : id));
+    this.handlers.onReplaced?.([{ txid: original.id, by }]);
+  }
+
+  private createTx(feeRateMedian: number): Transaction {
+    const p = this.params;
+    const isWhale = this.random() < p.whaleChance;
+    const value = isWhale
+      ? SATS_PER_BTC * p.whaleBtc[0] * Math.pow(p.whaleBtc[1] / p.whaleBtc[0], this.random())
+      : this.logNormal(p.valueMedian, p.valueSpread);
+    const vsize = Math.max(MIN_VSIZE, Math.round(this.logNormal(p.vsizeMedian, p.vsizeSpread)));
+    const fee = Math.round(Math.max(1, this.logNormal(feeRateMedian, p.feeRateSpread)) * vsize);
+    return {
+      id: this.hex(64),
+      value: Math.round(value),
+      fee,
+      vsize,
+      feeRate: fee / vsize,
+      timestamp: Date.now()
+    };
+  }
+
+  /** Mine the best-paying txs that fit in a block. */
+  private mineBlock() {
+    const sorted = [...this.mempool.values()].sort(byFeeRateDesc);
+    const mined: string[] = [];
+    let vsize = 0;
+    for (const tx of sorted) {
+      if (vsize + tx.vsize > BLOCK_VSIZE) break;
+      vsize += tx.vsize;
+      mined.push(tx.id);
+      this.mempool.delete(tx.id);
+    }
+
+    this.height++;
+    this.handlers.onBlock({
+      id: '0'.repeat(19) + this.hex(45),
+      height: this.height,
+      timestamp: Math.floor(Date.now() / 1000),
+      // Plus the coinbase
+      tx_count: mined.length + 1,
+      // Roughly what witness data adds on top of the discounted size
+      size: Math.round(vsize * 1.5),
+      weight: vsize * 4
+    });
+    if (mined.length > 0) this.handlers.onConfirmed?.(mined);
+    this.emitMempool();
+  }
+
+  /** Evict past the size limit, then publish stats and projected blocks from one sort. */
+  private emitMempool() {
+    this.lastStatsAt = this.clock;
+    const sorted = [...this.mempool.values()].sort(byFeeRateDesc);
+
+    if (sorted.length > MAX_MEMPOOL_TXS) {
+      const evicted = sorted.splice(Math.floor(MAX_MEMPOOL_TXS * 0.95));
+      evicted.forEach(tx => this.mempool.delete(tx.id));
+      this.handlers.onRemoved?.(evicted.map(tx => tx.id));
+    }
+
+    let vsize = 0;
+    let totalFee = 0;
+    const projected: ProjectedBlock[] = [];
+    let chunk: Transaction[] = [];
+    let chunkVsize = 0;
+    const closeChunk = () => {
+      if (chunk.length === 0) return;
+      // fee_range is ascending, so read the chunk from its cheapest end
+      const rates = chunk.map(tx => tx.feeRate).reverse();
+      const at = (q: number) => rates[Math.min(rates.length - 1, Math.floor(q * rates.length))];
+      projected.push({
+        vsize: chunkVsize,
+        tx_count: chunk.length,
+        total_fees: chunk.reduce((sum, tx) => sum + tx.fee, 0),
+        median_fee: at(0.5),
+        fee_range: [0, 0.1, 0.25, 0.5, 0.75, 0.9, 1].map(at)
+      });
+      chunk = [];
+      chunkVsize = 0;
+    };
+    sorted.forEach(tx => {
+      vsize += tx.vsize;
+      totalFee += tx.fee;
+      // The last projected block holds everything that doesn't fit in the ones before it
+      if (projected.length < PROJECTED_BLOCKS - 1 && chunkVsize + tx.vsize > BLOCK_VSIZE) closeChunk();
+      chunk.push(tx);
+      chunkVsize += tx.vsize;
+    });
+    closeChunk();
+
+    this.handlers.onStats({ count: sorted.length, vsize, total_fee: totalFee });
+    this.handlers.onProjectedBlocks?.(projected);
+  }
+
+  private rateAt(at: number) {
+    return Math.max(0.01, this.params.arrivalRate * this.surgeFactor(at, 'rateFactor'));
+  }
+
+  private surgeFactor(at: number, key: 'rateFactor' | 'feeFactor') {
+    const surge = this.scenario.surge;
+    if (!surge || at < surge.startSec || at > surge.startSec + surge.durationSec) return 1;
+    return 1 + (surge[key] - 1) * Math.sin(Math.PI * (at - surge.startSec) / surge.durationSec);
+  }
+
+  private exponential(mean: number) {
+    return -mean * Math.log(1 - this.random());
+  }
+
+  /** Box–Muller normal in log10 space. */
+  private logNormal(median: number, spread: number) {
+    const gaussian = Math.sqrt(-2 * Math.log(1 - this.random())) * Math.cos(2 * Math.PI * this.random());
+    return median * Math.pow(10, spread * gaussian);
+  }
+
+  private hex(length: number) {
+    let out = '';
+    while (out.length < length) out += Math.floor(this.random() * 0x100000000).toString(16).padStart(8, '0');
+    return out.slice(0, length);
+  }
+}
+
+/**
+ * Read `?simulate=<scenario>&seed=<n>`, plus optional `rate` (tx/s), `fee`
+ * (median sat/vB) and `block` (mean seconds) overrides.
+ */
+export function getSimulationFromUrl(): SimulationOptions | null {
+  const params = new URLSearchParams(window.location.search);
+  const id = params.get('simulate');
+  if (!id) return null;
+  const number = (key: string) => {
+    const value = parseFloat(params.get(key) ?? '');
+    return Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+  const overrides: Partial<SimulationParams> = {};
+  const rate = number('rate');
+  const fee = number('fee');
+  const block = number('block');
+  if (rate !== undefined) overrides.arrivalRate = rate;
+  if (fee !== undefined) overrides.feeRateMedian = fee;
+  if (block !== undefined) overrides.blockInterval = block;
+  return {
+    scenario: getScenario(id as ScenarioId).id,
+    seed: Math.floor(number('seed') ?? 1),
+    overrides
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * Sound packs: everything genre-specific about the radio lives here as data,
+ * so AudioEngine and the Sequencer can switch feel without restarting audio.
+ */
+
+/** Voice roles. Each pack gives every role its own timbre. */
+export type VoiceId = 'pluck' | 'marimba' | 'steelDrum' | 'whale' | 'skank';
+
+export interface VoicePartial {
+  /** Multiple of the note frequency. */
+  ratio: number;
+  type: OscillatorType;
+  gain: number;
+}
+
+export interface VoiceSpec {
+  partials: VoicePartial[];
+  attack: number;
+  duration: number;
+  /** Peak level = base + scale * f(btcValue), f being linear or sqrt. */
+  volume: { base: number; scale: number; curve: 'linear' | 'sqrt' };
+  /** Multiplier applied to the scale note, e.g. 2 for an octave up. */
+  octave?: number;
+  /** Play this pitch instead of a scale note (sub-bass whales, fixed comp chords). */
+  fixedFreq?: number;
+  filter?: { type: BiquadFilterType; frequency: number; Q?: number };
+  reverbSend?: number;
+  delaySend?: number;
+}
+
+/** Transactions of at least `minBtc` use `voice`; pitch is spread over `range` on the scale. */
+export interface ValueTier {
+  minBtc: number;
+  range: [number, number];
+  voice: VoiceId;
+}
+
+export interface GroovePattern {
+  /** Seconds per straight 16th before swing and congestion tempo. */
+  baseInterval: number;
+  /** Long/short ratio of swung pairs, calm and busy (queue > 100). */
+  swing: number;
+  busySwing: number;
+  strongBeatChance: number;
+  offBeatChance: number;
+  ghostChance: number;
+  /** Grid steps the `skank` voice comps on, and how often it comps with no tx. */
+  compSteps: number[];
+  compChance: number;
+}
+
+export interface EffectsSpec {
+  delayTime: number;
+  delayFeedback: number;
+  delayFilterHz: number;
+  reverbSeconds: number;
+  reverbDecay: number;
+}
+
+export interface SoundPack {
+  id: string;
+  label: string;
+  /** Scale frequencies, low to high; higher values land on lower notes. */
+  scale: number[];
+  /** Ordered from largest to smallest; the last tier should have minBtc 0. */
+  tiers: ValueTier[];
+  voices: Record<VoiceId, VoiceSpec>;
+  /** Continuous layer driven by projected blocks (see HarmonyLayer). Durations are per note. */
+  harmony: { pad: VoiceSpec; bass: VoiceSpec };
+  groove: GroovePattern;
+  effects: EffectsSpec;
+  /** Arpeggio for the startup and block-confirm chime. */
+  chime: number[];
+}
+
+const reggae: SoundPack = {
+  id: 'reggae',
+  label: 'Island Reggae',
+  // Mixolydian Scale (G Major with a flat 7th)
+  scale: [
+    196.00, 220.00, 246.94, 261.63, 293.66, 329.63, 349.23, 392.00,
+    440.00, 493.88, 523.25, 587.33, 659.25, 698.46, 783.99, 880.00,
+  ],
+  tiers: [
+    { minBtc: 1.0, range: [1.0, 1.0], voice: 'whale' },
+    { minBtc: 0.1, range: [0.1, 1.0], voice: 'steelDrum' },
+    { minBtc: 0.01, range: [0.01, 0.1], voice: 'marimba' },
+    { minBtc: 0, range: [0.00001, 0.01], voice: 'pluck' }
+  ],
+  voices: {
+    // Ukulele
+    pluck: {
+      partials: [{ ratio: 1, type: 'triangle', gain: 1 }],
+      attack: 0.005, duration: 0.4, octave: 2,
+      volume: { base: 0.1, scale: 10, curve: 'linear' }
+    },
+    marimba: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }],
+      attack: 0.005, duration: 0.8,
+      volume: { base: 0.15, scale: 3, curve: 'linear' }
+    },
+    steelDrum: {
+      partials: [{ ratio: 1, type: 'triangle', gain: 1 }],
+      attack: 0.01, duration: 1.5, reverbSend: 1,
+      volume: { base: 0.2, scale: 0.1, curve: 'sqrt' }
+    },
+    whale: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }],
+      attack: 0.1, duration: 5.0, fixedFreq: 49.00,
+      volume: { base: 0.4, scale: 0, curve: 'linear' }
+    },
+    // Organ skank on the off-beat
+    skank: {
+      partials: [
+        { ratio: 1, type: 'triangle', gain: 1 },
+        { ratio: 2, type: 'sine', gain: 1 / 2 },
+        { ratio: 1.5, type: 'sine', gain: 1 / 3 }
+      ],
+      attack: 0.01, duration: 0.15, fixedFreq: 392.00,
+      volume: { base: 0.08, scale: 0, curve: 'linear' }
+    }
+  },
+  harmony: {
+    // Bubble organ pad
+    pad: {
+      partials: [
+        { ratio: 1, type: 'triangle', gain: 1 },
+        { ratio: 2, type: 'sine', gain: 0.3 }
+      ],
+      attack: 0.3, duration: 3.2,
+      filter: { type: 'lowpass', frequency: 1400 },
+      volume: { base: 0.025, scale: 0, curve: 'linear' }
+    },
+    // Round dub bass
+    bass: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }, { ratio: 2, type: 'triangle', gain: 0.15 }],
+      attack: 0.01, duration: 0.6,
+      filter: { type: 'lowpass', frequency: 400 },
+      volume: { base: 0.3, scale: 0, curve: 'linear' }
+    }
+  },
+  groove: {
+    baseInterval: 0.2,
+    swing: 1.4,
+    busySwing: 1.8,
+    strongBeatChance: 0.95,
+    offBeatChance: 0.6,
+    ghostChance: 0.2,
+    compSteps: [4, 12],
+    compChance: 0.3
+  },
+  effects: {
+    delayTime: 0.45,
+    delayFeedback: 0.4,
+    delayFilterHz: 1000,
+    reverbSeconds: 2.5,
+    reverbDecay: 3.0
+  },
+  chime: [196, 246.94, 293.66, 392]
+};
+
+const lofiJazz: SoundPack = {
+  id: 'lofi-jazz',
+  label: 'Lo-fi Jazz',
+  // D Dorian, two octaves
+  scale: [
+    146.83, 164.81, 174.61, 196.00, 220.00, 246.94, 261.63, 293.66,
+    329.63, 349.23, 392.00, 440.00, 493.88, 523.25, 587.33, 659.25,
+  ],
+  tiers: [
+    { minBtc: 1.0, range: [1.0, 1.0], voice: 'whale' },
+    { minBtc: 0.1, range: [0.1, 1.0], voice: 'steelDrum' },
+    { minBtc: 0.01, range: [0.01, 0.1], voice: 'marimba' },
+    { minBtc: 0, range: [0.00001, 0.01], voice: 'pluck' }
+  ],
+  voices: {
+    // Dusty Rhodes
+    pluck: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 2, type: 'sine', gain: 0.2 }
+      ],
+      attack: 0.01, duration: 0.6, octave: 2,
+      filter: { type: 'lowpass', frequency: 1800 },
+      volume: { base: 0.08, scale: 8, curve: 'linear' }
+    },
+    // Vibraphone
+    marimba: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 4, type: 'sine', gain: 0.15 }
+      ],
+      attack: 0.005, duration: 1.4, delaySend: 0.3,
+      volume: { base: 0.12, scale: 2.5, curve: 'linear' }
+    },
+    // Muted horn
+    steelDrum: {
+      partials: [{ ratio: 1, type: 'sawtooth', gain: 1 }],
+      attack: 0.04, duration: 1.2, reverbSend: 0.6,
+      filter: { type: 'lowpass', frequency: 1200, Q: 2 },
+      volume: { base: 0.1, scale: 0.06, curve: 'sqrt' }
+    },
+    // Upright bass
+    whale: {
+      partials: [
+        { ratio: 1, type: 'triangle', gain: 1 },
+        { ratio: 2, type: 'sine', gain: 0.3 }
+      ],
+      attack: 0.02, duration: 2.5, fixedFreq: 73.42,
+      filter: { type: 'lowpass', frequency: 600 },
+      volume: { base: 0.45, scale: 0, curve: 'linear' }
+    },
+    // Minor seventh comp
+    skank: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 1.19, type: 'sine', gain: 0.7 },
+        { ratio: 1.5, type: 'sine', gain: 0.6 },
+        { ratio: 1.78, type: 'sine', gain: 0.5 }
+      ],
+      attack: 0.02, duration: 0.35, fixedFreq: 293.66,
+      filter: { type: 'lowpass', frequency: 2200 },
+      volume: { base: 0.05, scale: 0, curve: 'linear' }
+    }
+  },
+  harmony: {
+    // Warm electric piano voicing
+    pad: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }, { ratio: 3, type: 'sine', gain: 0.08 }],
+      attack: 0.05, duration: 3.8,
+      filter: { type: 'lowpass', frequency: 1600 },
+      volume: { base: 0.03, scale: 0, curve: 'linear' }
+    },
+    // Walking upright
+    bass: {
+      partials: [{ ratio: 1, type: 'triangle', gain: 1 }, { ratio: 2, type: 'sine', gain: 0.25 }],
+      attack: 0.015, duration: 0.7,
+      filter: { type: 'lowpass', frequency: 500 },
+      volume: { base: 0.28, scale: 0, curve: 'linear' }
+    }
+  },
+  groove: {
+    baseInterval: 0.24,
+    swing: 1.5,
+    busySwing: 1.7,
+    strongBeatChance: 0.85,
+    offBeatChance: 0.5,
+    ghostChance: 0.15,
+    compSteps: [6, 14],
+    compChance: 0.25
+  },
+  effects: {
+    delayTime: 0.36,
+    delayFeedback: 0.3,
+    delayFilterHz: 800,
+    reverbSeconds: 1.8,
+    reverbDecay: 2.5
+  },
+  chime: [146.83, 174.61, 220.00, 261.63]
+};
+
+const ambientDrone: SoundPack = {
+  id: 'ambient',
+  label: 'Ambient Drone',
+  // C major pentatonic, three octaves
+  scale: [
+    130.81, 146.83, 164.81, 196.00, 220.00, 261.63, 293.66, 329.63,
+    392.00, 440.00, 523.25, 587.33, 659.25, 783.99, 880.00, 1046.50,
+  ],
+  tiers: [
+    { minBtc: 1.0, range: [1.0, 1.0], voice: 'whale' },
+    { minBtc: 0.1, range: [0.1, 1.0], voice: 'steelDrum' },
+    { minBtc: 0.01, range: [0.01, 0.1], voice: 'marimba' },
+    { minBtc: 0, range: [0.00001, 0.01], voice: 'pluck' }
+  ],
+  voices: {
+    // Glass droplets
+    pluck: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }],
+      attack: 0.03, duration: 1.5, octave: 2, delaySend: 0.5,
+      volume: { base: 0.05, scale: 5, curve: 'linear' }
+    },
+    // Soft pad swell
+    marimba: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 1.5, type: 'sine', gain: 0.4 }
+      ],
+      attack: 0.4, duration: 3.5, reverbSend: 0.8,
+      volume: { base: 0.08, scale: 1.5, curve: 'linear' }
+    },
+    // Inharmonic bell
+    steelDrum: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 2.76, type: 'sine', gain: 0.4 },
+        { ratio: 5.4, type: 'sine', gain: 0.15 }
+      ],
+      attack: 0.005, duration: 4.0, reverbSend: 1,
+      volume: { base: 0.12, scale: 0.06, curve: 'sqrt' }
+    },
+    // Deep drone
+    whale: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 1.5, type: 'sine', gain: 0.3 },
+        { ratio: 2, type: 'triangle', gain: 0.15 }
+      ],
+      attack: 1.5, duration: 10.0, fixedFreq: 65.41, reverbSend: 0.5,
+      volume: { base: 0.35, scale: 0, curve: 'linear' }
+    },
+    // Open fifth breath
+    skank: {
+      partials: [
+        { ratio: 1, type: 'sine', gain: 1 },
+        { ratio: 1.5, type: 'sine', gain: 0.8 }
+      ],
+      attack: 0.5, duration: 2.5, fixedFreq: 261.63, reverbSend: 0.7,
+      volume: { base: 0.03, scale: 0, curve: 'linear' }
+    }
+  },
+  harmony: {
+    // Slow string-like swell
+    pad: {
+      partials: [
+        { ratio: 1, type: 'sawtooth', gain: 0.5 },
+        { ratio: 1.003, type: 'sawtooth', gain: 0.5 }
+      ],
+      attack: 1.2, duration: 4.8, reverbSend: 0.8,
+      filter: { type: 'lowpass', frequency: 900 },
+      volume: { base: 0.02, scale: 0, curve: 'linear' }
+    },
+    // Sub swell
+    bass: {
+      partials: [{ ratio: 1, type: 'sine', gain: 1 }],
+      attack: 0.6, duration: 2.5,
+      volume: { base: 0.25, scale: 0, curve: 'linear' }
+    }
+  },
+  groove: {
+    baseInterval: 0.3,
+    swing: 1.0,
+    busySwing: 1.1,
+    strongBeatChance: 0.7,
+    offBeatChance: 0.35,
+    ghostChance: 0,
+    compSteps: [0, 8],
+    compChance: 0.1
+  },
+  effects: {
+    delayTime: 0.6,
+    delayFeedback: 0.55,
+    delayFilterHz: 1400,
+    reverbSeconds: 5.0,
+    reverbDecay: 2.0
+  },
+  chime: [261.63, 392.00, 523.25, 783.99]
+};
+
+export const SOUND_PACKS: SoundPack[] = [reggae, lofiJazz, ambientDrone];
+
+export const DEFAULT_SOUND_PACK = reggae;
+
+export function getSoundPack(id: string): SoundPack {
+  return SOUND_PACKS.find(pack => pack.id === id) ?? DEFAULT_SOUND_PACK;
+}
@@ -0,0 +1,107 @@
+import { TxDetail, TxInput, TxOutput, TxRelative } from '../types';
+
+/** A JSON object straight off the wire; decoders check every field they read. */
+type JsonObject = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** A finite, non-negative number, else undefined. */
+const amount = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.length > 0 ? value : undefined;
+
+const objects = (value: unknown): JsonObject[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+/** Thrown rather than rendering a drawer full of blanks. */
+const incomplete = (field: string) => new Error(`Backend returned an incomplete transaction (no ${field})`);
+
+/** CPFP relatives are best-effort, so malformed ones are dropped. */
+function decodeRelatives(value: unknown): TxRelative[] {
+  return objects(value).flatMap(tx => {
+    const txid = text(tx.txid);
+    return txid ? [{ txid, fee: amount(tx.fee) ?? 0, weight: amount(tx.weight) ?? 0 }] : [];
+  });
+}
+
+function decodeInput(input: JsonObject): TxInput {
+  const txid = text(input.txid);
+  const vout = amount(input.vout);
+  if (txid === undefined) throw incomplete('input txid');
+  if (vout === undefined) throw incomplete('input vout');
+  const prevout = isObject(input.prevout) ? input.prevout : {};
+  return {
+    txid,
+    vout,
+    address: text(prevout.scriptpubkey_address),
+    value: amount(prevout.value),
+    isCoinbase: input.is_coinbase === true
+  };
+}
+
+function decodeOutput(output: JsonObject): TxOutput {
+  const value = amount(output.value);
+  if (value === undefined) throw incomplete('output value');
+  return { address: text(output.scriptpubkey_address), value, type: text(output.scriptpubkey_type) };
+}
+
+/** Map an Esplora-style `/tx/:txid` response to TxDetail. */
+function parseTxDetail(tx: unknown, cpfp: unknown): TxDetail {
+  if (!isObject(tx)) throw incomplete('body');
+  const txid = text(tx.txid);
+  const size = amount(tx.size);
+  const weight = amount(tx.weight);
+  const fee = amount(tx.fee);
+  if (txid === undefined) throw incomplete('txid');
+  if (size === undefined) throw incomplete('size');
+  if (weight === undefined) throw incomplete('weight');
+  if (fee === undefined) throw incomplete('fee');
+
+  const vsize = Math.ceil(weight / 4);
+  const vin = objects(tx.vin);
+  const status = isObject(tx.status) ? tx.status : {};
+  const relatives = isObject(cpfp) ? cpfp : {};
+  return {
+    txid,
+    size,
+    weight,
+    vsize,
+    fee,
+    feeRate: vsize > 0 ? fee / vsize : 0,
+    rbf: vin.some(input => typeof input.sequence === 'number' && input.sequence < 0xfffffffe),
+    inputs: vin.map(decodeInput),
+    outputs: objects(tx.vout).map(decodeOutput),
+    confirmed: status.confirmed === true,
+    blockHeight: amount(status.block_height),
+    blockTime: amount(status.block_time),
+    ancestors: decodeRelatives(relatives.ancestors),
+    descendants: decodeRelatives(relatives.descendants)
+  };
+}
+
+/**
+ * Fetch a transaction and its CPFP cluster from the configured backend.
+ * The tx itself is required; ancestors/descendants are best-effort (confirmed
+ * txs and some self-hosted backends don't serve them).
+ */
+export async function fetchTxDetail(apiUrl: string, txid: string, signal?: AbortSignal): Promise<TxDetail> {
+  const res = await fetch(`${apiUrl}/tx/${txid}`, { signal });
+  if (!res.ok) {
+    throw new Error(res.status === 404 ? 'Transaction not found' : `Backend returned ${res.status}`);
+  }
+  const tx: unknown = await res.json();
+
+  let cpfp: unknown = null;
+  if (!(isObject(tx) && isObject(tx.status) && tx.status.confirmed === true)) {
+    try {
+      const cpfpRes = await fetch(`${apiUrl}/v1/cpfp/${txid}`, { signal });
+      if (cpfpRes.ok) cpfp = await cpfpRes.json();
+    } catch (err) {
+      if (signal?.aborted) throw err;
+    }
+  }
+
+  return parseTxDetail(tx, cpfp);
+}
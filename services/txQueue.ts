@@ -0,0 +1,206 @@
+import { Transaction } from '../types';
+
+/** Small txs merged during a burst; played as one roll and drawn as one cluster bubble. */
+export interface TxCluster {
+  id: string;
+  txs: Transaction[];
+  /** Running totals over `txs`, kept by TxQueue so summaries don't walk the members. */
+  value: number;
+  fees: number;
+  vsize: number;
+}
+
+export type QueueItem = { kind: 'tx'; tx: Transaction } | { kind: 'cluster'; cluster: TxCluster };
+
+export interface QueuePolicy {
+  /** Txs worth at least this many BTC are never merged or dropped. */
+  protectBtc: number;
+  /** Txs paying at least this many sat/vB are never merged or dropped. */
+  protectFeeRate: number;
+  /** From this many waiting items, small arrivals are merged into clusters. */
+  burstDepth: number;
+  /** Txs per cluster before a new one is started. */
+  clusterSize: number;
+  /** Past this many items the lowest-priority ones are folded into their neighbours. */
+  maxDepth: number;
+  /** How many of the newest items compaction looks at; older ones have already been folded. */
+  compactWindow: number;
+}
+
+export const DEFAULT_QUEUE_POLICY: QueuePolicy = {
+  protectBtc: 0.1,
+  protectFeeRate: 100,
+  burstDepth: 48,
+  clusterSize: 12,
+  maxDepth: 1500,
+  compactWindow: 64
+};
+
+export interface QueueStats {
+  /** Items waiting to play; a cluster counts once. */
+  depth: number;
+  /** Transactions waiting, including those inside clusters. */
+  pending: number;
+  /** Transactions played as part of a cluster this session. */
+  aggregated: number;
+}
+
+/** Value- and fee-weighted: an order of magnitude in fee rate counts twice one in value. */
+const priority = (value: number, feeRate: number) => Math.log10(1 + value) + 2 * Math.log10(1 + Math.max(0, feeRate));
+
+/** Combined value and vsize-weighted fee rate of a cluster, for sound and visuals. */
+export const summarizeCluster = (cluster: TxCluster) => ({
+  value: cluster.value,
+  feeRate: cluster.vsize > 0 ? cluster.fees / cluster.vsize : 1
+});
+
+/** Add (sign 1) or take away (sign -1) a tx's share of a cluster's totals. */
+const tally = (cluster: TxCluster, tx: Transaction, sign: 1 | -1) => {
+  cluster.value += sign * tx.value;
+  cluster.fees += sign * tx.fee;
+  cluster.vsize += sign * tx.vsize;
+};
+
+/**
+ * Sequencer backlog with a backpressure policy instead of a blind cap: in a
+ * burst, small txs merge into clusters, and an overfull queue folds its
+ * lowest-priority items together. Protected (big or high-fee) txs always
+ * keep their own slot, and no tx is ever silently thrown away.
+ */
+export class TxQueue {
+  private items: QueueItem[] = [];
+  private policy: QueuePolicy;
+  private pendingTxs = 0;
+  private aggregatedTxs = 0;
+  private nextClusterId = 0;
+
+  constructor(policy: QueuePolicy = DEFAULT_QUEUE_POLICY) {
+    this.policy = policy;
+  }
+
+  get depth() {
+    return this.items.length;
+  }
+
+  get stats(): QueueStats {
+    return { depth: this.items.length, pending: this.pendingTxs, aggregated: this.aggregatedTxs };
+  }
+
+  isProtected(tx: Transaction) {
+    return tx.value / 100_000_000 >= this.policy.protectBtc || tx.feeRate >= this.policy.protectFeeRate;
+  }
+
+  push(tx: Transaction) {
+    this.pendingTxs++;
+    const tail = this.items[this.items.length - 1];
+    if (this.isProtected(tx) || this.items.length < this.policy.burstDepth) {
+      this.items.push({ kind: 'tx', tx });
+    } else if (tail?.kind === 'cluster' && tail.cluster.txs.length < this.policy.clusterSize) {
+      tail.cluster.txs.push(tx);
+      tally(tail.cluster, tx, 1);
+    } else {
+      this.items.push({ kind: 'cluster', cluster: this.newCluster(tx) });
+    }
+    this.compact();
+  }
+
+  /** Next item to play; a cluster that ended up with a single tx plays as that tx. */
+  shift(): QueueItem | null {
+    const item = this.items.shift();
+    if (!item) return null;
+    if (item.kind === 'tx') {
+      this.pendingTxs--;
+      return item;
+    }
+    this.pendingTxs -= item.cluster.txs.length;
+    if (item.cluster.txs.length === 1) return { kind: 'tx', tx: item.cluster.txs[0] };
+    this.aggregatedTxs += item.cluster.txs.length;
+    return item;
+  }
+
+  /** Drop txs that left the mempool before their turn came, wherever they wait. */
+  discard(txids: Set<string>) {
+    this.items = this.items.filter(item => {
+      if (item.kind === 'tx') {
+        if (!txids.has(item.tx.id)) return true;
+        this.pendingTxs--;
+        return false;
+      }
+      const { cluster } = item;
+      cluster.txs = cluster.txs.filter(tx => {
+        if (!txids.has(tx.id)) return true;
+        tally(cluster, tx, -1);
+        this.pendingTxs--;
+        return false;
+      });
+      return cluster.txs.length > 0;
+    });
+  }
+
+  /** Swap a queued tx for its RBF replacement, keeping its place in line. */
+  replace(txid: string, by: Transaction) {
+    for (const item of this.items) {
+      if (item.kind === 'tx' && item.tx.id === txid) {
+        item.tx = by;
+        return;
+      }
+      if (item.kind === 'cluster') {
+        const index = item.cluster.txs.findIndex(tx => tx.id === txid);
+        if (index !== -1) {
+          tally(item.cluster, item.cluster.txs[index], -1);
+          tally(item.cluster, by, 1);
+          item.cluster.txs[index] = by;
+          return;
+        }
+      }
+    }
+  }
+
+  private newCluster(tx: Transaction): TxCluster {
+    return { id: `cluster:${this.nextClusterId++}`, txs: [tx], value: tx.value, fees: tx.fee, vsize: tx.vsize };
+  }
+
+  private itemPriority(item: QueueItem) {
+    if (item.kind === 'tx') return priority(item.tx.value, item.tx.feeRate);
+    const { value, feeRate } = summarizeCluster(item.cluster);
+    return priority(value, feeRate);
+  }
+
+  private isMergeable(item: QueueItem | undefined): item is QueueItem {
+    return item !== undefined && (item.kind === 'cluster' || !this.isProtected(item.tx));
+  }
+
+  /**
+   * Fold the lowest-priority unprotected item among the newest `compactWindow`
+   * into its older neighbour until the queue fits. Each push overflows by at
+   * most one item, so only recent arrivals need looking at, and the cost per
+   * push stays flat however long the queue has grown.
+   */
+  private compact() {
+    while (this.items.length > this.policy.maxDepth) {
+      let lowest = -1;
+      let lowestPriority = Infinity;
+      for (let i = Math.max(1, this.items.length - this.policy.compactWindow); i < this.items.length; i++) {
+        // Items behind a protected tx have nothing to fold into
+        if (!this.isMergeable(this.items[i]) || !this.isMergeable(this.items[i - 1])) continue;
+        const p = this.itemPriority(this.items[i]);
+        if (p < lowestPriority) {
+          lowest = i;
+          lowestPriority = p;
+        }
+      }
+      // Only protected txs among the newest: let the queue run long rather than drop any
+      if (lowest === -1) return;
+
+      const [source, into] = [this.items[lowest], this.items[lowest - 1]];
+      const merged = into.kind === 'cluster' ? into.cluster : this.newCluster(into.tx);
+      // Appending keeps arrival order within the cluster
+      (source.kind === 'tx' ? [source.tx] : source.cluster.txs).forEach(tx => {
+        merged.txs.push(tx);
+        tally(merged, tx, 1);
+      });
+      this.items[lowest - 1] = { kind: 'cluster', cluster: merged };
+      this.items.splice(lowest, 1);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+export type WatchKind = 'address' | 'tx';
+
+export interface WatchItem {
+  kind: WatchKind;
+  value: string;
+}
+
+/** What we know about a watched txid or address this session. */
+export interface WatchStatus {
+  /** Seen in the mempool (or already confirmed) this session. */
+  seen: boolean;
+  /** Height of the block that confirmed the tx (txid items only). */
+  blockHeight?: number;
+  /** Most recent matching txid (address items). */
+  lastTxid?: string;
+}
+
+/** Default number of confirmations after which a watched txid counts as settled. */
+export const SETTLED_CONFIRMATIONS = 6;
+
+const WATCHLIST_STORAGE_KEY = 'mempool-radio:watchlist';
+
+const TXID_PATTERN = /^[0-9a-f]{64}$/i;
+
+export function getWatchKind(value: string): WatchKind {
+  return TXID_PATTERN.test(value) ? 'tx' : 'address';
+}
+
+/** Compact display form for long txids and addresses. */
+export const shortId = (value: string) =>
+  value.length > 16 ? `${value.slice(0, 8)}…${value.slice(-6)}` : value;
+
+function loadItems(): WatchItem[] {
+  try {
+    const raw = localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : [];
+    return Array.isArray(saved)
+      ? saved.filter((item: any) => typeof item?.value === 'string' && (item.kind === 'tx' || item.kind === 'address'))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Addresses and txids the team wants to hear about. Items persist in localStorage;
+ * statuses are rebuilt each session from the feed and the REST tx status endpoint.
+ */
+export class Watchlist {
+  private items: WatchItem[] = loadItems();
+  private statuses: Record<string, WatchStatus> = {};
+  private listeners = new Set<() => void>();
+  settledConfirmations = SETTLED_CONFIRMATIONS;
+
+  get all(): WatchItem[] {
+    return this.items;
+  }
+
+  get addresses(): string[] {
+    return this.items.filter(item => item.kind === 'address').map(item => item.value);
+  }
+
+  get txids(): string[] {
+    return this.items.filter(item => item.kind === 'tx').map(item => item.value);
+  }
+
+  status(value: string): WatchStatus {
+    return this.statuses[value] ?? { seen: false };
+  }
+
+  isWatchedTx(txid: string) {
+    return this.items.some(item => item.kind === 'tx' && item.value === txid);
+  }
+
+  /** Returns false if the value is empty or already watched. */
+  add(input: string): boolean {
+    const value = input.trim();
+    if (!value || this.items.some(item => item.value === value)) return false;
+    this.items = [...this.items, { kind: getWatchKind(value), value }];
+    this.save();
+    return true;
+  }
+
+  remove(value: string) {
+    this.items = this.items.filter(item => item.value !== value);
+    delete this.statuses[value];
+    this.save();
+  }
+
+  /** Record a sighting; returns true the first time `key` is seen with this txid. */
+  recordSeen(key: string, txid: string): boolean {
+    const previous = this.status(key);
+    const isNew = !previous.seen || previous.lastTxid !== txid;
+    this.statuses[key] = { ...previous, seen: true, lastTxid: txid };
+    if (isNew) this.emit();
+    return isNew;
+  }
+
+  /** Record a confirmation; returns true the first time `key` is confirmed. */
+  recordConfirmed(key: string, blockHeight: number): boolean {
+    const previous = this.status(key);
+    const isNew = previous.blockHeight === undefined;
+    this.statuses[key] = { ...previous, seen: true, blockHeight };
+    if (isNew) this.emit();
+    return isNew;
+  }
+
+  /** Ask the REST API about watched txids that aren't settled yet. */
+  async refreshStatuses(apiUrl: string, tipHeight?: number) {
+    const pending = this.txids.filter(txid => {
+      const height = this.status(txid).blockHeight;
+      return height === undefined || tipHeight === undefined || tipHeight - height + 1 < this.settledConfirmations;
+    });
+    await Promise.all(pending.map(async txid => {
+      try {
+        const res = await fetch(`${apiUrl}/tx/${txid}/status`);
+        if (!res.ok) return;
+        const status = await res.json();
+        if (status.confirmed && typeof status.block_height === 'number') {
+          this.statuses[txid] = { ...this.status(txid), seen: true, blockHeight: status.block_height };
+        } else {
+          this.statuses[txid] = { ...this.status(txid), seen: true };
+        }
+      } catch (err) {
+        console.error('Watchlist status fetch error', err);
+      }
+    }));
+    if (pending.length) this.emit();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(this.items));
+    } catch {
+      // Storage full or disabled: the watchlist still works for this session
+    }
+    this.emit();
+  }
+}
+
+export const watchlist = new Watchlist();
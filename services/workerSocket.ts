@@ -0,0 +1,99 @@
+import { DataSourceHandlers, RawFrameSource, TrackingSource } from './dataSource';
+import { dispatchBatch } from './feedBatch';
+import type { FeedWorkerReply, FeedWorkerRequest } from './feedWorker';
+import { MempoolSocket } from './mempoolSocket';
+import { DEFAULT_NETWORK, getWebSocketUrl } from './network';
+
+/**
+ * The live feed with the websocket, JSON parsing, normalization and
+ * deduplication in a dedicated worker; the page only unpacks ready batches.
+ * Falls back to a main-thread `MempoolSocket` if the worker fails to start.
+ */
+export class WorkerSocket implements TrackingSource, RawFrameSource {
+  private worker: Worker | null = null;
+  private fallback: MempoolSocket | null = null;
+  private url: string;
+  private handlers: DataSourceHandlers;
+  private tracking: { addresses: string[]; txids: string[] } = { addresses: [], txids: [] };
+  private forwardRaw = false;
+
+  constructor(handlers: DataSourceHandlers, url: string = getWebSocketUrl(DEFAULT_NETWORK)) {
+    this.handlers = handlers;
+    this.url = url;
+  }
+
+  connect() {
+    if (this.fallback) {
+      this.fallback.connect();
+      return;
+    }
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./feedWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<FeedWorkerReply>) => this.handleReply(e.data);
+      this.worker.onerror = (err) => {
+        console.error('Mempool.fm: Feed worker failed, parsing on the main thread instead', err);
+        this.startFallback();
+      };
+    }
+    this.post({ type: 'tracking', ...this.tracking });
+    this.post({ type: 'forwardRaw', enabled: this.forwardRaw });
+    this.post({ type: 'connect', url: this.url });
+  }
+
+  setTracking(addresses: string[], txids: string[]) {
+    this.tracking = { addresses, txids };
+    if (this.fallback) this.fallback.setTracking(addresses, txids);
+    else this.post({ type: 'tracking', addresses, txids });
+  }
+
+  /** Raw frames cross from the worker only while enabled; each one is a structured-clone copy. */
+  setForwardRaw(enabled: boolean) {
+    this.forwardRaw = enabled;
+    if (this.fallback) this.fallback.setForwardRaw(enabled);
+    else this.post({ type: 'forwardRaw', enabled });
+  }
+
+  disconnect() {
+    if (this.fallback) {
+      this.fallback.disconnect();
+      return;
+    }
+    this.handlers.onStatus?.('disconnected');
+    if (this.worker) {
+      this.post({ type: 'disconnect' });
+      this.worker.terminate();
+      this.worker = null;
+    }
+  }
+
+  private handleReply(message: FeedWorkerReply) {
+    switch (message.type) {
+      case 'status':
+        this.handlers.onStatus?.(message.status);
+        break;
+      case 'raw':
+        this.handlers.onRawFrame?.(message.raw);
+        break;
+      case 'batch':
+        dispatchBatch(message.batch, this.handlers);
+        break;
+    }
+  }
+
+  private post(message: FeedWorkerRequest) {
+    this.worker?.postMessage(message);
+  }
+
+  private startFallback() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.fallback = new MempoolSocket(this.handlers, this.url);
+    this.fallback.setTracking(this.tracking.addresses, this.tracking.txids);
+    this.fallback.setForwardRaw(this.forwardRaw);
+    this.fallback.connect();
+  }
+}
+
+/** The live feed: parsed in a worker where the browser has them, on the main thread otherwise. */
+export const createLiveSource = (handlers: DataSourceHandlers, url: string): TrackingSource & RawFrameSource =>
+  typeof Worker !== 'undefined' ? new WorkerSocket(handlers, url) : new MempoolSocket(handlers, url);
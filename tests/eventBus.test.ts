@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { encodeOscMessage } from '../services/eventBus';
+
+/** Bytes written as hex, with whitespace for readability. */
+const hex = (text: string) => new Uint8Array(text.replace(/\s+/g, '').match(/../g)!.map(byte => parseInt(byte, 16)));
+
+const bytesOf = (buffer: ArrayBuffer) => new Uint8Array(buffer);
+
+describe('encodeOscMessage', () => {
+  it('encodes the OSC 1.0 spec frequency example as int and as float', () => {
+    expect(bytesOf(encodeOscMessage('/oscillator/4/frequency', [440]))).toEqual(hex(`
+      2f6f7363 696c6c61 746f722f 342f6672 65717565 6e637900
+      2c690000
+      000001b8
+    `));
+    // 440 is an integer, so it goes out as `i`; the spec's float form needs a fraction
+    expect(bytesOf(encodeOscMessage('/oscillator/4/frequency', [440.5])).slice(24)).toEqual(hex('2c660000 43dc4000'));
+  });
+
+  it('matches the mixed-argument example from the OSC 1.0 spec', () => {
+    expect(bytesOf(encodeOscMessage('/foo', [1000, -1, 'hello', 1.234, 5.678]))).toEqual(hex(`
+      2f666f6f 00000000
+      2c696973 66660000
+      000003e8
+      ffffffff
+      68656c6c 6f000000
+      3f9df3b6
+      40b5b22d
+    `));
+  });
+
+  it('sends numbers beyond float32 precision as float64', () => {
+    expect(bytesOf(encodeOscMessage('/mempool/stats', [3_000_000_000]))).toEqual(hex(`
+      2f6d656d 706f6f6c 2f737461 74730000
+      2c640000
+      41e65a0b c0000000
+    `));
+  });
+
+  it('pads a string whose length is a multiple of four with a full word of nulls', () => {
+    expect(bytesOf(encodeOscMessage('/tx', ['abcd', '']))).toEqual(hex(`
+      2f747800
+      2c737300
+      61626364 00000000
+      00000000
+    `));
+  });
+});
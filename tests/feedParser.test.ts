@@ -0,0 +1,191 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  decodeBlock, decodeMempoolInfo, decodeMempoolSummary, decodeProjectedBlocks, decodeTx, dispatchFrame
+} from '../services/feedParser';
+import { DataSourceHandlers } from '../services/dataSource';
+import { Block, MempoolStats, ProjectedBlock, Transaction, TxReplacement } from '../types';
+
+/** Raw websocket frame text, as mempool.space sends it. */
+const frame = (name: string) => readFileSync(new URL(`./fixtures/frames/${name}.json`, import.meta.url), 'utf8');
+const payload = (name: string, key: string) => JSON.parse(frame(name))[key];
+
+const RECEIVED_AT = 1_760_870_700_123;
+
+/** Dispatch a frame and collect what reached each handler. */
+function collect(raw: string) {
+  const out = {
+    txs: [] as Transaction[],
+    blocks: [] as Block[],
+    stats: [] as MempoolStats[],
+    projected: [] as ProjectedBlock[][],
+    removed: [] as string[][],
+    confirmed: [] as string[][],
+    replaced: [] as TxReplacement[][]
+  };
+  const handlers: DataSourceHandlers = {
+    onTransaction: tx => out.txs.push(tx),
+    onBlock: block => out.blocks.push(block),
+    onStats: stats => out.stats.push(stats),
+    onProjectedBlocks: blocks => out.projected.push(blocks),
+    onRemoved: txids => out.removed.push(txids),
+    onConfirmed: txids => out.confirmed.push(txids),
+    onReplaced: replacements => out.replaced.push(replacements)
+  };
+  dispatchFrame(raw, handlers);
+  return out;
+}
+
+let warn: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  warn.mockRestore();
+});
+
+describe('transactions', () => {
+  it('decodes stripped mempool txs in sats and vbytes with the fee rate from fee / vsize', () => {
+    const { txs } = collect(frame('mempool-transactions'));
+    expect(txs).toHaveLength(2);
+    expect(txs[0]).toMatchObject({
+      id: '3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c1d0e',
+      value: 1_254_300,
+      fee: 2820,
+      vsize: 141,
+      feeRate: 20
+    });
+    expect(txs[1].value).toBe(250_000_000);
+    expect(txs[1].feeRate).toBeCloseTo(110_250 / 225.25, 6);
+    txs.forEach(tx => expect(tx.missing).toBeUndefined());
+  });
+
+  it('sums esplora outputs and derives vsize from weight', () => {
+    const tx = decodeTx(payload('tx-esplora', 'tx'), RECEIVED_AT)!;
+    expect(tx.value).toBe(3_000_000 + 2_008_472);
+    expect(tx.vsize).toBe(561 / 4);
+    expect(tx.fee).toBe(3528);
+    expect(tx.feeRate).toBeCloseTo(3528 / 140.25, 6);
+    expect(tx.timestamp).toBe(RECEIVED_AT);
+    expect(tx.missing).toBeUndefined();
+  });
+
+  it('zeroes and flags fields a partial tx lacks instead of guessing', () => {
+    const [rateOnly, garbage] = payload('tx-partial', 'mempool-transactions').added;
+
+    const tx = decodeTx(rateOnly)!;
+    expect(tx).toMatchObject({ value: 75_000, fee: 0, vsize: 0, feeRate: 12.5 });
+    expect(tx.missing).toEqual(['fee', 'vsize']);
+
+    // Negative fees, numeric strings and nulls are not amounts
+    const bad = decodeTx(garbage)!;
+    expect(bad).toMatchObject({ value: 0, fee: 0, vsize: 0, feeRate: 0 });
+    expect(bad.missing).toEqual(['value', 'fee', 'vsize', 'feeRate']);
+  });
+
+  it('drops txs without a txid and non-objects, keeping the rest of the frame', () => {
+    const { txs } = collect(frame('tx-partial'));
+    expect(txs.map(tx => tx.id)).toEqual([
+      '0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c1d',
+      'f0a9b8c7d6e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1'
+    ]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('fans out removed, mined and replaced txids', () => {
+    const { removed, confirmed, replaced } = collect(frame('mempool-transactions'));
+    expect(removed).toEqual([['c5b4a3d2e1f0a9b8c7d6e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6']]);
+    expect(confirmed).toEqual([['e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6']]);
+    expect(replaced).toHaveLength(1);
+    expect(replaced[0][0].txid).toBe('a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8');
+    expect(replaced[0][0].by).toMatchObject({ fee: 4230, vsize: 141, feeRate: 30 });
+  });
+});
+
+describe('blocks', () => {
+  it('decodes a full block frame', () => {
+    const { blocks } = collect(frame('block'));
+    expect(blocks).toEqual([{
+      id: '00000000000000000001b4c8f35b6a7e0e1d6f2a9c3b8e4d7f1a2c5b6e9d0f3a',
+      height: 918_432,
+      timestamp: 1_760_870_655,
+      tx_count: 3812,
+      size: 1_598_843,
+      weight: 3_993_012
+    }]);
+  });
+
+  it('timestamps a stripped block with the receive time in seconds and flags what it lacks', () => {
+    const block = decodeBlock(payload('block-stripped', 'block'), RECEIVED_AT)!;
+    expect(block.height).toBe(918_433);
+    expect(block.timestamp).toBe(Math.floor(RECEIVED_AT / 1000));
+    expect(block).toMatchObject({ tx_count: 0, size: 0, weight: 0 });
+    expect(block.missing).toEqual(['timestamp', 'tx_count', 'size', 'weight']);
+  });
+
+  it('rejects a block without a height', () => {
+    expect(decodeBlock(payload('block-no-height', 'block'))).toBeNull();
+    expect(collect(frame('block-no-height')).blocks).toEqual([]);
+  });
+});
+
+describe('mempool stats', () => {
+  it('converts mempoolInfo total_fee from BTC to sats', () => {
+    expect(decodeMempoolInfo(payload('mempool-info', 'mempoolInfo'))).toEqual({
+      count: 48_213,
+      vsize: 24_118_432,
+      total_fee: 31_415_926
+    });
+  });
+
+  it('reads the stats summary total_fee as sats already', () => {
+    expect(decodeMempoolSummary(payload('stats', 'stats'))).toEqual({
+      count: 48_213,
+      vsize: 24_118_432,
+      total_fee: 31_415_926
+    });
+  });
+
+  it('agrees on units whichever frame carries the stats', () => {
+    expect(collect(frame('mempool-info')).stats).toEqual(collect(frame('stats')).stats);
+  });
+
+  it('rejects mempoolInfo without total_fee rather than reporting zero fees', () => {
+    expect(decodeMempoolInfo(payload('mempool-info-partial', 'mempoolInfo'))).toBeNull();
+    expect(collect(frame('mempool-info-partial')).stats).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+  });
+});
+
+describe('projected blocks', () => {
+  it('decodes mempool-blocks next block first', () => {
+    const blocks = decodeProjectedBlocks(payload('mempool-blocks', 'mempool-blocks'))!;
+    expect(blocks).toHaveLength(3);
+    expect(blocks[0]).toEqual({
+      vsize: 997_934.25,
+      tx_count: 3311,
+      total_fees: 9_120_544,
+      median_fee: 6.02,
+      fee_range: [4.01, 4.5, 5, 6.02, 8, 12.1, 402]
+    });
+    expect(blocks[2].vsize).toBe(22_122_486);
+  });
+
+  it('rejects the whole list when one entry is malformed', () => {
+    expect(decodeProjectedBlocks(payload('mempool-blocks-malformed', 'mempool-blocks'))).toBeNull();
+    expect(collect(frame('mempool-blocks-malformed')).projected).toEqual([]);
+  });
+});
+
+describe('dispatchFrame', () => {
+  it('throws on a truncated frame so callers can log and skip it', () => {
+    expect(() => collect(frame('block').slice(0, 40))).toThrow();
+  });
+
+  it('ignores frames with nothing it understands', () => {
+    const out = collect('{"pong":true}');
+    expect(Object.values(out).every(list => list.length === 0)).toBe(true);
+  });
+});
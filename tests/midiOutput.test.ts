@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MIDI, MidiOutput, frequencyToNote } from '../services/midiOutput';
+
+/** A fake output port that records what was sent to it. */
+const fakePort = (id: string, name: string) => ({ id, name, send: vi.fn<(data: number[], timestamp: number) => void>() });
+
+/** A fake MIDIAccess, as `navigator.requestMIDIAccess` would resolve it. */
+function fakeAccess(...ports: ReturnType<typeof fakePort>[]) {
+  return {
+    outputs: new Map(ports.map(port => [port.id, port])),
+    onstatechange: null as (() => void) | null
+  };
+}
+
+const NOW = 1000;
+
+beforeEach(() => {
+  vi.spyOn(performance, 'now').mockReturnValue(NOW);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('frequencyToNote', () => {
+  it('maps Hz to the nearest MIDI note', () => {
+    expect(frequencyToNote(440)).toBe(69);
+    expect(frequencyToNote(261.63)).toBe(60);
+    expect(frequencyToNote(49)).toBe(31);
+  });
+
+  it('clamps to the MIDI range', () => {
+    expect(frequencyToNote(1)).toBe(0);
+    expect(frequencyToNote(40_000)).toBe(127);
+  });
+});
+
+describe('MidiOutput', () => {
+  let synth: ReturnType<typeof fakePort>;
+  let daw: ReturnType<typeof fakePort>;
+  let access: ReturnType<typeof fakeAccess>;
+  let midi: MidiOutput;
+
+  beforeEach(() => {
+    synth = fakePort('out-1', 'IAC Driver Bus 1');
+    daw = fakePort('out-2', 'Digitone');
+    access = fakeAccess(synth, daw);
+    midi = new MidiOutput(() => Promise.resolve(access as unknown as MIDIAccess));
+  });
+
+  it('lists the outputs once access is granted', async () => {
+    const listener = vi.fn();
+    midi.subscribe(listener);
+    expect(midi.outputs).toEqual([]);
+
+    await midi.connect();
+    expect(midi.isConnected).toBe(true);
+    expect(midi.outputs).toEqual([{ id: 'out-1', name: 'IAC Driver Bus 1' }, { id: 'out-2', name: 'Digitone' }]);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays disconnected when access is denied', async () => {
+    const denied = new MidiOutput(() => Promise.reject(new DOMException('Permission denied', 'SecurityError')));
+    await expect(denied.connect()).rejects.toThrow('Permission denied');
+    expect(denied.isConnected).toBe(false);
+    expect(denied.outputs).toEqual([]);
+  });
+
+  it('re-reads the ports when a device is plugged in', async () => {
+    await midi.connect();
+    const listener = vi.fn();
+    midi.subscribe(listener);
+    access.outputs.set('out-3', fakePort('out-3', 'USB MIDI Interface'));
+    access.onstatechange?.();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(midi.outputs.map(port => port.id)).toEqual(['out-1', 'out-2', 'out-3']);
+  });
+
+  it('sends nothing until an output is chosen', async () => {
+    await midi.connect();
+    midi.note('pluck', 440, 1, 0, 0.5);
+    midi.block(0);
+    expect(synth.send).not.toHaveBeenCalled();
+    expect(daw.send).not.toHaveBeenCalled();
+  });
+
+  it('sends a note on and a timed note off on the voice channel', async () => {
+    await midi.connect();
+    midi.update({ outputId: 'out-1' });
+    synth.send.mockClear();
+
+    midi.note('marimba', 440, 0.5, 0.1, 0.25);
+    expect(synth.send.mock.calls).toEqual([
+      [[0x91, 69, 64], NOW + 100],
+      [[0x81, 69, 0], NOW + 350]
+    ]);
+    expect(daw.send).not.toHaveBeenCalled();
+  });
+
+  it('never sends a silent note on', async () => {
+    await midi.connect();
+    midi.update({ outputId: 'out-1' });
+    midi.note('pluck', 440, 0, 0, 0.1);
+    expect(synth.send.mock.calls[0][0]).toEqual([0x90, 69, 1]);
+  });
+
+  it('sends the block message as a control or program change', async () => {
+    await midi.connect();
+    midi.update({ outputId: 'out-1' });
+    synth.send.mockClear();
+
+    midi.block(0.5);
+    expect(synth.send).toHaveBeenLastCalledWith([0xbf, 20, 127], NOW + 500);
+
+    midi.update({ block: { channel: 10, kind: 'program', number: 7, value: 0 } });
+    midi.block(0);
+    expect(synth.send).toHaveBeenLastCalledWith([0xc9, 7], NOW);
+  });
+
+  it('silences every mapped channel on the old port when switching outputs', async () => {
+    await midi.connect();
+    midi.update({ outputId: 'out-1' });
+    synth.send.mockClear();
+
+    midi.update({ outputId: 'out-2' });
+    const channels = new Set([...Object.values(DEFAULT_MIDI.channels), DEFAULT_MIDI.block.channel]);
+    expect(synth.send).toHaveBeenCalledTimes(channels.size);
+    channels.forEach(channel => expect(synth.send).toHaveBeenCalledWith([0xb0 | (channel - 1), 123, 0], NOW));
+
+    midi.note('whale', 49, 1, 0, 5);
+    expect(daw.send.mock.calls[0][0]).toEqual([0x93, 31, 127]);
+  });
+
+  it('logs and carries on when a port rejects a message', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    synth.send.mockImplementation(() => { throw new TypeError('Port is disconnected'); });
+    await midi.connect();
+    midi.update({ outputId: 'out-1' });
+    expect(() => midi.block(0)).not.toThrow();
+    expect(error).toHaveBeenCalledWith('MIDI send failed', expect.any(TypeError));
+  });
+});
@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_PROVIDERS, MockPriceProvider, PriceFeed, STALE_AFTER_MS, createMempoolProvider, providersForBackend
+} from '../services/priceFeed';
+
+/** A mock with its own label, so failover shows up in `source`. */
+const named = (label: string, prices: ConstructorParameters<typeof MockPriceProvider>[0]) => {
+  const provider = new MockPriceProvider(prices);
+  provider.label = label;
+  return provider;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2025-10-19T12:00:00Z'));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('PriceFeed failover', () => {
+  it('quotes from the first provider that answers', async () => {
+    const primary = named('Primary', { USD: 107_000, EUR: 92_000 });
+    const backup = named('Backup', { USD: 106_900 });
+    primary.fail = true;
+    const feed = new PriceFeed([primary, backup]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(feed.snapshot).toMatchObject({ prices: { USD: 106_900 }, source: 'Backup', updatedAt: Date.now() });
+    expect(console.warn).toHaveBeenCalledWith('Price provider Primary failed', expect.any(Error));
+    feed.stop();
+  });
+
+  it('goes back to the first provider once it recovers', async () => {
+    const primary = named('Primary', { USD: 107_000 });
+    const backup = named('Backup', { USD: 106_900 });
+    primary.fail = true;
+    const feed = new PriceFeed([primary, backup]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    primary.fail = false;
+    // The mock's ticker streams nothing here, so polling carries on every minute
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(feed.snapshot.source).toBe('Primary');
+    expect(feed.snapshot.prices.USD).toBe(107_000);
+    feed.stop();
+  });
+
+  it('treats a quote without USD as a failure', async () => {
+    const feed = new PriceFeed([named('Euro only', { EUR: 92_000 }), named('Backup', { USD: 106_900 })]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(feed.snapshot.source).toBe('Backup');
+    feed.stop();
+  });
+
+  it('keeps the last quote when every provider fails, and flags it stale', async () => {
+    const only = named('Only', { USD: 107_000 });
+    const feed = new PriceFeed([only]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(feed.isStale()).toBe(false);
+
+    only.fail = true;
+    await vi.advanceTimersByTimeAsync(STALE_AFTER_MS + 1);
+    expect(feed.snapshot.prices.USD).toBe(107_000);
+    expect(feed.isStale()).toBe(true);
+    expect(console.error).toHaveBeenCalledWith('All price providers failed; keeping the last quote');
+    feed.stop();
+  });
+
+  it('ignores a quote that lands after stop', async () => {
+    const feed = new PriceFeed([new MockPriceProvider({ USD: 107_000 })]);
+    feed.start();
+    feed.stop();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(feed.snapshot.updatedAt).toBeNull();
+  });
+
+  it('is stale before any quote arrives', () => {
+    expect(new PriceFeed([new MockPriceProvider()]).isStale()).toBe(true);
+  });
+});
+
+describe('PriceFeed ticker', () => {
+  it('streams from the ticker and coalesces notifications', async () => {
+    const provider = new MockPriceProvider({ USD: 107_000 });
+    const feed = new PriceFeed([provider]);
+    const listener = vi.fn();
+    feed.subscribe(listener);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    listener.mockClear();
+
+    provider.tick({ USD: 107_010 });
+    provider.tick({ USD: 107_020 });
+    provider.tick({ USD: 107_030 });
+    expect(feed.snapshot).toMatchObject({ prices: { USD: 107_030 }, isLive: true, source: 'Mock' });
+    expect(listener).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(listener).toHaveBeenCalledTimes(1);
+    feed.stop();
+  });
+
+  it('drops a pending notification on stop', async () => {
+    const provider = new MockPriceProvider({ USD: 107_000 });
+    const feed = new PriceFeed([provider]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    const listener = vi.fn();
+    feed.subscribe(listener);
+
+    provider.tick({ USD: 107_010 });
+    feed.stop();
+    listener.mockClear();
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(listener).not.toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('skips polling while the ticker is fresh', async () => {
+    const provider = new MockPriceProvider({ USD: 107_000 });
+    const fetchPrices = vi.spyOn(provider, 'fetchPrices');
+    const feed = new PriceFeed([provider]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    provider.tick({ USD: 107_500 });
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(fetchPrices).toHaveBeenCalledTimes(1);
+    feed.stop();
+  });
+});
+
+describe('setExternalPrice', () => {
+  it('moves other currencies along at their last cross rate', async () => {
+    const feed = new PriceFeed([new MockPriceProvider({ USD: 100_000, EUR: 90_000 })]);
+    feed.start();
+    await vi.advanceTimersByTimeAsync(0);
+    feed.stop();
+    feed.setExternalPrice(110_000, 'Recording');
+    expect(feed.snapshot.source).toBe('Recording');
+    expect(feed.snapshot.prices.USD).toBe(110_000);
+    expect(feed.snapshot.prices.EUR).toBeCloseTo(99_000, 6);
+  });
+});
+
+describe('mempool price provider', () => {
+  it('uses mempool.space by default', () => {
+    expect(providersForBackend('https://mempool.space')).toBe(DEFAULT_PROVIDERS);
+  });
+
+  it('asks a custom backend, not mempool.space', async () => {
+    const fetch = vi.fn(async () => new Response(JSON.stringify({ time: 1760875200, USD: 107_123, EUR: 92_045, GBP: 80_012, JPY: 16_250_000 })));
+    vi.stubGlobal('fetch', fetch);
+    const provider = providersForBackend('https://mempool.example.org').find(p => p.id === 'mempool')!;
+
+    expect(provider.label).toBe('mempool.example.org');
+    await expect(provider.fetchPrices()).resolves.toEqual({ USD: 107_123, EUR: 92_045, GBP: 80_012, JPY: 16_250_000 });
+    expect(fetch).toHaveBeenCalledWith('https://mempool.example.org/api/v1/prices', expect.anything());
+  });
+
+  it('rejects when the backend answers with an error status', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    await expect(createMempoolProvider('https://mempool.space').fetchPrices()).rejects.toThrow('HTTP 503');
+  });
+});
@@ -0,0 +1,111 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReplaySource, parseReplayFile } from '../services/replaySource';
+import { ConnectionStatus, DataSourceHandlers } from '../services/dataSource';
+import { Block, MempoolStats, Transaction } from '../types';
+
+/** A recorded session whose last line was cut off mid-write. */
+const captured = readFileSync(new URL('./fixtures/sessions/captured.jsonl', import.meta.url), 'utf8');
+
+let warn: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  warn.mockRestore();
+});
+
+describe('parseReplayFile', () => {
+  it('reads a captured session: header snapshot first, then frames and snapshots in time order', () => {
+    const entries = parseReplayFile(captured);
+    expect(entries.map(e => e.t)).toEqual([0, 118.4, 402.9, 981.2, 2450.7, 60012.3, 60530.8]);
+    expect(entries[0]).toEqual({
+      t: 0,
+      snapshot: { btcPrice: 107250.5, mempool: { count: 47980, vsize: 23874112, total_fee: 30982201 } }
+    });
+    expect(entries.filter(e => 'frame' in e)).toHaveLength(5);
+  });
+
+  it('skips the truncated last line with a single warning', () => {
+    parseReplayFile(captured);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Mempool.fm: Skipped 1 malformed replay line(s)');
+  });
+
+  it('counts every malformed line but warns once', () => {
+    const text = ['{"t":1,"frame":"{}"}', '{"t":2,"fra', 'null', '<<<<<<< HEAD', '{"t":3,"frame":"{}"}'].join('\n');
+    expect(parseReplayFile(text)).toHaveLength(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith('Mempool.fm: Skipped 3 malformed replay line(s)');
+  });
+
+  it('refuses captures from a newer recorder', () => {
+    expect(() => parseReplayFile('{"format":"mempool.radio/session","version":99}')).toThrow('Unsupported session version 99');
+  });
+});
+
+describe('ReplaySource', () => {
+  let received: { txs: Transaction[]; blocks: Block[]; stats: MempoolStats[]; prices: number[]; statuses: ConnectionStatus[] };
+  let handlers: DataSourceHandlers;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    received = { txs: [], blocks: [], stats: [], prices: [], statuses: [] };
+    handlers = {
+      onTransaction: tx => received.txs.push(tx),
+      onBlock: block => received.blocks.push(block),
+      onStats: stats => received.stats.push(stats),
+      onPrice: price => received.prices.push(price),
+      onStatus: status => received.statuses.push(status)
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('replays the capture at its recorded pace, scaled by speed', async () => {
+    const source = new ReplaySource(handlers, { text: captured }, { speed: 2, loop: false });
+    await source.connect();
+    expect(received.statuses).toEqual(['connecting', 'connected']);
+
+    vi.advanceTimersByTime(0);
+    expect(received.prices).toEqual([107250.5]);
+    expect(received.stats).toHaveLength(1);
+
+    // The mempoolInfo frame was recorded 118.4 ms in, so at 2x it lands just under 60 ms later
+    vi.advanceTimersByTime(58);
+    expect(received.stats).toHaveLength(1);
+    vi.advanceTimersByTime(2);
+    expect(received.stats[1].total_fee).toBe(31_415_926);
+
+    vi.advanceTimersByTime(60_530.8 / 2);
+    expect(received.txs).toHaveLength(3);
+    expect(received.blocks.map(b => b.height)).toEqual([918_432]);
+    expect(received.prices).toEqual([107250.5, 107410]);
+    expect(received.statuses[received.statuses.length - 1]).toBe('disconnected');
+  });
+
+  it('starts over from the header snapshot when looping', async () => {
+    const source = new ReplaySource(handlers, { text: captured }, { speed: 8, loop: true });
+    await source.connect();
+    vi.advanceTimersByTime(60_530.8 / 8 + 10);
+    expect(received.prices).toEqual([107250.5, 107410, 107250.5]);
+    expect(received.statuses).not.toContain('disconnected');
+    source.disconnect();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('reports a capture it cannot load as disconnected', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const source = new ReplaySource(handlers, { text: '{"format":"mempool.radio/session","version":99}' });
+    await source.connect();
+    expect(received.statuses).toEqual(['connecting', 'disconnected']);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_SETTINGS, LEGACY_MIXER_KEY, SETTINGS_STORAGE_KEY, SETTINGS_VERSION, Settings,
+  applyPresetParams, loadStored, toPresetUrl
+} from '../services/settings';
+import { DEFAULT_MIXER } from '../services/mixer';
+
+const PAGE = 'https://mempool.radio/';
+
+/** In-memory localStorage, seeded with `entries`. */
+function fakeStorage(entries: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(entries));
+  return {
+    get length() { return items.size; },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear()
+  };
+}
+
+const fromUrl = (query: string) => applyPresetParams(DEFAULT_SETTINGS, new URLSearchParams(query));
+
+const QUIET_WHALE = { ...DEFAULT_MIXER.whale, gain: 0.2, mute: true };
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('loadStored', () => {
+  it('uses the defaults when nothing is stored', () => {
+    expect(loadStored(fakeStorage())).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('migrates an unversioned payload and the legacy mixer key', () => {
+    const storage = fakeStorage({
+      [SETTINGS_STORAGE_KEY]: JSON.stringify({ volume: 0.3, harmony: false }),
+      [LEGACY_MIXER_KEY]: JSON.stringify({ whale: QUIET_WHALE })
+    });
+
+    const settings = loadStored(storage);
+    expect(settings).toMatchObject({ volume: 0.3, harmony: false });
+    expect(settings.mixer).toEqual({ ...DEFAULT_MIXER, whale: QUIET_WHALE });
+    expect(storage.getItem(LEGACY_MIXER_KEY)).toBeNull();
+  });
+
+  it('picks up the legacy mixer when nothing else was stored', () => {
+    const storage = fakeStorage({ [LEGACY_MIXER_KEY]: JSON.stringify({ whale: QUIET_WHALE }) });
+    expect(loadStored(storage).mixer.whale).toEqual(QUIET_WHALE);
+  });
+
+  it('reads a current payload as saved', () => {
+    const saved: Settings = { ...DEFAULT_SETTINGS, volume: 0.25, currency: 'EUR' };
+    const storage = fakeStorage({ [SETTINGS_STORAGE_KEY]: JSON.stringify({ version: SETTINGS_VERSION, settings: saved }) });
+    expect(loadStored(storage)).toEqual(saved);
+  });
+
+  it('falls back to the defaults for a payload from a newer build', () => {
+    const storage = fakeStorage({
+      [SETTINGS_STORAGE_KEY]: JSON.stringify({ version: SETTINGS_VERSION + 1, settings: { volume: 0.1 } })
+    });
+    expect(loadStored(storage)).toEqual(DEFAULT_SETTINGS);
+    expect(console.warn).toHaveBeenCalledWith(`Settings version ${SETTINGS_VERSION + 1} is newer than this build; using defaults`);
+  });
+
+  it('falls back to the defaults for unreadable storage', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadStored(fakeStorage({ [SETTINGS_STORAGE_KEY]: '{"version":1,' }))).toEqual(DEFAULT_SETTINGS);
+    expect(console.error).toHaveBeenCalledWith('Failed to load settings', expect.any(SyntaxError));
+  });
+});
+
+describe('preset links', () => {
+  it('round-trips non-default settings through the URL', () => {
+    const settings: Settings = {
+      ...DEFAULT_SETTINGS,
+      volume: 0.35,
+      soundPackId: 'ambient',
+      harmony: !DEFAULT_SETTINGS.harmony,
+      priceMood: !DEFAULT_SETTINGS.priceMood,
+      currency: 'JPY',
+      network: { network: 'testnet4', baseUrl: 'https://mempool.example.org' },
+      visuals: { ...DEFAULT_SETTINGS.visuals, scene: 'treemap', feeOverlay: true, history: true },
+      thresholds: { whaleBtc: 25, settledConfirmations: 3 },
+      mixer: { ...DEFAULT_MIXER, whale: QUIET_WHALE }
+    };
+    expect(applyPresetParams(DEFAULT_SETTINGS, new URL(toPresetUrl(settings, PAGE)).searchParams)).toEqual(settings);
+  });
+
+  it('leaves the defaults out of the link', () => {
+    expect(toPresetUrl(DEFAULT_SETTINGS, PAGE)).toBe(PAGE);
+  });
+
+  it('normalizes bad values away', () => {
+    expect(fromUrl('vol=abc&scene=bogus&pack=nope&currency=xyz')).toEqual(DEFAULT_SETTINGS);
+    expect(fromUrl('vol=7&whale=0&confirmations=5000')).toMatchObject({
+      volume: 1,
+      thresholds: { whaleBtc: 0.01, settledConfirmations: 100 }
+    });
+  });
+
+  it('ignores a malformed mix', () => {
+    expect(fromUrl('mix=%7B%22whale%22').mixer).toEqual(DEFAULT_MIXER);
+    expect(fromUrl('mix=%5B1%2C2%5D').mixer).toEqual(DEFAULT_MIXER);
+    expect(fromUrl('mix=42').mixer).toEqual(DEFAULT_MIXER);
+    expect(console.warn).toHaveBeenCalledWith('Ignoring malformed mix parameter');
+  });
+});
@@ -0,0 +1,126 @@
+import { readFileSync } from 'node:fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { fetchTxDetail } from '../services/txDetails';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/api/${name}.json`, import.meta.url), 'utf8');
+
+const UNCONFIRMED = '7d6e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c';
+const CONFIRMED = 'e5f4a3b2c1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6';
+
+type Route = { status: number; body?: string } | 'hang';
+
+/** Stub backend: answers each path from `routes`, 404 otherwise, and logs what was asked for. */
+let routes: Record<string, Route> = {};
+let requested: string[] = [];
+let server: Server;
+let apiUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const path = req.url ?? '';
+    requested.push(path);
+    const route = routes[path] ?? { status: 404, body: 'Transaction not found' };
+    // Never answered, to hold the drawer in its loading state
+    if (route === 'hang') return;
+    res.writeHead(route.status, { 'Content-Type': 'application/json' });
+    res.end(route.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  routes = {};
+  requested = [];
+});
+
+describe('fetchTxDetail', () => {
+  it('decodes an unconfirmed tx with its CPFP cluster', async () => {
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: fixture('tx') };
+    routes[`/api/v1/cpfp/${UNCONFIRMED}`] = { status: 200, body: fixture('cpfp') };
+
+    const detail = await fetchTxDetail(apiUrl, UNCONFIRMED);
+    expect(detail).toMatchObject({ txid: UNCONFIRMED, size: 222, weight: 561, vsize: 141, fee: 3528, rbf: true, confirmed: false });
+    expect(detail.feeRate).toBeCloseTo(3528 / 141, 6);
+    expect(detail.inputs).toEqual([{
+      txid: '1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c',
+      vout: 1,
+      address: 'bc1qf3y7t8k0n9q4w2x6z5c8v7b3m1l0k9j8h7g6f5',
+      value: 5_012_000,
+      isCoinbase: false
+    }]);
+    expect(detail.outputs.map(o => [o.type, o.value])).toEqual([['v0_p2wpkh', 3_000_000], ['v1_p2tr', 2_008_472]]);
+    expect(detail.ancestors).toEqual([{ txid: '1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c', fee: 141, weight: 561 }]);
+    expect(detail.descendants).toHaveLength(1);
+  });
+
+  it('skips the CPFP lookup for a confirmed tx', async () => {
+    routes[`/api/tx/${CONFIRMED}`] = { status: 200, body: fixture('tx-confirmed') };
+
+    const detail = await fetchTxDetail(apiUrl, CONFIRMED);
+    expect(detail).toMatchObject({ confirmed: true, blockHeight: 918_432, blockTime: 1_760_870_655, rbf: false, fee: 0 });
+    expect(detail.inputs[0].isCoinbase).toBe(true);
+    expect(requested).toEqual([`/api/tx/${CONFIRMED}`]);
+  });
+
+  it('still shows the tx when the backend has no CPFP endpoint', async () => {
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: fixture('tx') };
+
+    const detail = await fetchTxDetail(apiUrl, UNCONFIRMED);
+    expect(detail.txid).toBe(UNCONFIRMED);
+    expect(detail.ancestors).toEqual([]);
+    expect(detail.descendants).toEqual([]);
+  });
+
+  it('rejects a tx missing required fields instead of rendering blanks', async () => {
+    const { weight, ...noWeight } = JSON.parse(fixture('tx'));
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: JSON.stringify(noWeight) };
+    await expect(fetchTxDetail(apiUrl, UNCONFIRMED)).rejects.toThrow('Backend returned an incomplete transaction (no weight)');
+
+    const tx = JSON.parse(fixture('tx'));
+    tx.vout[0].value = '3000000';
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: JSON.stringify(tx) };
+    await expect(fetchTxDetail(apiUrl, UNCONFIRMED)).rejects.toThrow('(no output value)');
+
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: '[]' };
+    await expect(fetchTxDetail(apiUrl, UNCONFIRMED)).rejects.toThrow('(no body)');
+  });
+
+  it('drops malformed CPFP relatives', async () => {
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 200, body: fixture('tx') };
+    const cpfp = JSON.parse(fixture('cpfp'));
+    cpfp.ancestors.push({ fee: 100, weight: 400 }, null);
+    routes[`/api/v1/cpfp/${UNCONFIRMED}`] = { status: 200, body: JSON.stringify(cpfp) };
+
+    const detail = await fetchTxDetail(apiUrl, UNCONFIRMED);
+    expect(detail.ancestors.map(a => a.txid)).toEqual(['1d0e3f1a8c2e9d7b4a6f0e5c1b2d8a9f7e6c5b4a3d2e1f0a9b8c7d6e5f4a3b2c']);
+  });
+
+  it('reports an unknown txid as not found', async () => {
+    await expect(fetchTxDetail(apiUrl, UNCONFIRMED)).rejects.toThrow('Transaction not found');
+  });
+
+  it('reports other backend failures by status', async () => {
+    routes[`/api/tx/${UNCONFIRMED}`] = { status: 502, body: 'Bad Gateway' };
+    await expect(fetchTxDetail(apiUrl, UNCONFIRMED)).rejects.toThrow('Backend returned 502');
+  });
+
+  it('stays pending while the backend is slow and rejects once the drawer aborts', async () => {
+    routes[`/api/tx/${UNCONFIRMED}`] = 'hang';
+    const controller = new AbortController();
+    let settled = false;
+    const pending = fetchTxDetail(apiUrl, UNCONFIRMED, controller.signal).finally(() => { settled = true; });
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(settled).toBe(false);
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+  });
+});
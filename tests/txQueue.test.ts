@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { QueueItem, QueuePolicy, TxCluster, TxQueue, summarizeCluster } from '../services/txQueue';
+import { Transaction } from '../types';
+
+const POLICY: QueuePolicy = { protectBtc: 0.1, protectFeeRate: 100, burstDepth: 4, clusterSize: 3, maxDepth: 8, compactWindow: 4 };
+
+let nextId = 0;
+const tx = (value: number, fee: number, vsize = 141): Transaction => ({
+  id: `tx${nextId++}`,
+  value,
+  fee,
+  vsize,
+  feeRate: fee / vsize,
+  timestamp: 0
+});
+
+const drain = (queue: TxQueue) => {
+  const items: QueueItem[] = [];
+  for (let item = queue.shift(); item; item = queue.shift()) items.push(item);
+  return items;
+};
+
+const idsOf = (items: QueueItem[]) => items.flatMap(item => (item.kind === 'tx' ? [item.tx.id] : item.cluster.txs.map(t => t.id)));
+
+/** Totals recomputed from the members, to check the running ones against. */
+const recount = (cluster: TxCluster) => ({
+  value: cluster.txs.reduce((sum, t) => sum + t.value, 0),
+  fees: cluster.txs.reduce((sum, t) => sum + t.fee, 0),
+  vsize: cluster.txs.reduce((sum, t) => sum + t.vsize, 0)
+});
+
+describe('TxQueue', () => {
+  it('merges small arrivals into clusters during a burst', () => {
+    const queue = new TxQueue(POLICY);
+    const txs = Array.from({ length: 10 }, () => tx(10_000, 1410));
+    txs.forEach(t => queue.push(t));
+
+    expect(queue.stats).toEqual({ depth: 6, pending: 10, aggregated: 0 });
+    const items = drain(queue);
+    expect(items.map(item => item.kind)).toEqual(['tx', 'tx', 'tx', 'tx', 'cluster', 'cluster']);
+    expect(idsOf(items)).toEqual(txs.map(t => t.id));
+  });
+
+  it('keeps cluster totals in step through pushes, discards and replacements', () => {
+    const queue = new TxQueue(POLICY);
+    const txs = Array.from({ length: 7 }, (_, i) => tx(10_000 * (i + 1), 1000 + i * 100));
+    txs.forEach(t => queue.push(t));
+    queue.discard(new Set([txs[5].id]));
+    const bumped = tx(60_000, 4230);
+    queue.replace(txs[4].id, bumped);
+
+    const cluster = drain(queue).find(item => item.kind === 'cluster')!;
+    if (cluster.kind !== 'cluster') throw new Error('expected a cluster');
+    expect(cluster.cluster.txs.map(t => t.id)).toEqual([bumped.id, txs[6].id]);
+    expect(cluster.cluster).toMatchObject(recount(cluster.cluster));
+    expect(summarizeCluster(cluster.cluster)).toEqual({
+      value: 60_000 + 70_000,
+      feeRate: (4230 + 1600) / (141 * 2)
+    });
+  });
+
+  it('folds the lowest-priority recent items into their older neighbour once past maxDepth', () => {
+    const queue = new TxQueue({ ...POLICY, clusterSize: 1 });
+    const txs = Array.from({ length: 40 }, (_, i) => tx(1000 + (i % 7) * 5000, 300 + (i % 5) * 200));
+    txs.forEach(t => queue.push(t));
+
+    expect(queue.depth).toBe(POLICY.maxDepth);
+    expect(queue.stats.pending).toBe(40);
+    const items = drain(queue);
+    // Nothing lost or reordered
+    expect(idsOf(items)).toEqual(txs.map(t => t.id));
+    items.forEach(item => {
+      if (item.kind === 'cluster') expect(item.cluster).toMatchObject(recount(item.cluster));
+    });
+  });
+
+  it('never merges protected txs, letting the queue run long instead', () => {
+    const queue = new TxQueue(POLICY);
+    const whales = Array.from({ length: 12 }, () => tx(50_000_000, 1410));
+    whales.forEach(t => queue.push(t));
+    expect(queue.depth).toBe(12);
+    expect(drain(queue).every(item => item.kind === 'tx')).toBe(true);
+  });
+
+  it('plays a cluster whittled down to one tx as that tx', () => {
+    const queue = new TxQueue(POLICY);
+    const txs = Array.from({ length: 6 }, () => tx(10_000, 1410));
+    txs.forEach(t => queue.push(t));
+    queue.discard(new Set([txs[5].id]));
+    const items = drain(queue);
+    expect(items[4]).toEqual({ kind: 'tx', tx: txs[4] });
+    expect(queue.stats.aggregated).toBe(0);
+  });
+});
@@ -1,26 +1,98 @@
 
+export type TxField = 'value' | 'fee' | 'vsize' | 'feeRate';
+
 export interface Transaction {
   id: string;
   value: number; // in Satoshis
   fee: number; // in Satoshis
-  vsize: number;
+  vsize: number; // in vbytes
   feeRate: number; // sat/vB
-  timestamp: number;
+  timestamp: number; // ms since epoch, when received
+  /** Fields the feed didn't carry; they hold 0 rather than a guess. */
+  missing?: TxField[];
+}
+
+/** An RBF replacement: `txid` left the mempool in favour of `by`. */
+export interface TxReplacement {
+  txid: string;
+  by: Transaction;
+}
+
+/** A tracked address or txid showed up in the feed. `key` is the watched address or txid. */
+export interface WatchMatch {
+  key: string;
+  txid: string;
+  tx?: Transaction;
+  confirmed: boolean;
+  blockHeight?: number;
 }
 
+export type BlockField = 'timestamp' | 'tx_count' | 'size' | 'weight';
+
 export interface Block {
   id: string;
   height: number;
-  timestamp: number;
+  timestamp: number; // Unix seconds
   tx_count: number;
+  size: number; // in bytes
+  weight: number; // in weight units
+  /** Fields the feed didn't carry: the timestamp is then the time received, the rest 0. */
+  missing?: BlockField[];
+}
+
+export interface TxInput {
+  txid: string;
+  vout: number;
+  address?: string;
+  value?: number; // in Satoshis
+  isCoinbase: boolean;
+}
+
+export interface TxOutput {
+  address?: string;
+  value: number; // in Satoshis
+  type?: string;
+}
+
+/** A related unconfirmed tx from the CPFP endpoint. */
+export interface TxRelative {
+  txid: string;
+  fee: number; // in Satoshis
+  weight: number;
+}
+
+/** Full transaction as shown in the detail drawer, from the REST API. */
+export interface TxDetail {
+  txid: string;
   size: number;
   weight: number;
+  vsize: number;
+  fee: number; // in Satoshis
+  feeRate: number; // sat/vB
+  /** BIP125: at least one input sequence below 0xfffffffe. */
+  rbf: boolean;
+  inputs: TxInput[];
+  outputs: TxOutput[];
+  confirmed: boolean;
+  blockHeight?: number;
+  blockTime?: number;
+  ancestors: TxRelative[];
+  descendants: TxRelative[];
 }
 
 export interface MempoolStats {
   count: number;
+  vsize: number; // in vbytes
+  total_fee: number; // in Satoshis
+}
+
+/** One projected block from the `mempool-blocks` feed (index 0 = next block). */
+export interface ProjectedBlock {
   vsize: number;
-  total_fee: number;
+  tx_count: number;
+  total_fees: number; // in Satoshis
+  median_fee: number; // sat/vB
+  fee_range: number[]; // sat/vB, ascending
 }
 
 export interface AppState {
@@ -29,4 +101,5 @@ export interface AppState {
   isAudioStarted: boolean;
   volume: number;
   mempoolStats: MempoolStats;
+  projectedBlocks: ProjectedBlock[];
 }